@@ -0,0 +1,227 @@
+import { createHash, createPublicKey, timingSafeEqual, verify, constants, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Scopes gating groups of MCP methods. API keys without a `scopes` list
+ * receive all of them; OAuth tokens carry theirs in the `scope` claim.
+ */
+export const SCOPES = {
+  tools: 'quiver:tools', // tools/list, tools/call
+  resources: 'quiver:resources', // resources/*, completion of template variables
+  prompts: 'quiver:prompts' // prompts/*, completion of prompt arguments
+};
+
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  scopes?: string[];
+  tools?: string[]; // Allowlist of tool names; all tools when omitted
+}
+
+export interface OAuthConfig {
+  issuer: string;
+  jwksFile: string; // Local JWKS document holding the issuer's signing keys
+  audience: string;
+}
+
+export interface AuthConfig {
+  apiKeys: ApiKeyConfig[];
+  oauth?: OAuthConfig;
+  resourceUrl?: string; // Public URL of the MCP endpoint, advertised in protected-resource metadata
+}
+
+// Error code for authenticated callers lacking a scope or tool grant; server-http reuses it for foreign session ids
+const FORBIDDEN = -32003;
+
+// Tolerated clock difference when checking exp and nbf, in seconds
+const CLOCK_SKEW_SECONDS = 60;
+
+// Signature algorithms accepted for OAuth access tokens
+const JWT_ALGORITHMS: Record<string, { hash: string | null; dsaEncoding?: 'ieee-p1363'; padding?: number }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null }
+};
+
+/**
+ * Reads inbound auth settings from the environment. API keys come from
+ * MCP_API_KEYS (a JSON array) or the JSON file named by MCP_API_KEYS_FILE.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const rawKeys = env.MCP_API_KEYS_FILE ? readFileSync(env.MCP_API_KEYS_FILE, 'utf8') : env.MCP_API_KEYS;
+  const apiKeys: ApiKeyConfig[] = rawKeys ? JSON.parse(rawKeys) : [];
+
+  apiKeys.forEach((apiKey, index) => {
+    if (!apiKey?.name || !apiKey?.key) {
+      throw new Error(`MCP_API_KEYS[${index}] needs both a name and a key`);
+    }
+  });
+
+  const resourceUrl = env.MCP_RESOURCE_URL;
+  let oauth: OAuthConfig | undefined;
+  if (env.OAUTH_ISSUER) {
+    const audience = env.OAUTH_AUDIENCE || resourceUrl;
+    if (!env.OAUTH_JWKS_FILE) {
+      throw new Error('OAUTH_ISSUER requires OAUTH_JWKS_FILE');
+    }
+    if (!audience) {
+      throw new Error('OAUTH_ISSUER requires OAUTH_AUDIENCE or MCP_RESOURCE_URL so tokens for other services are rejected');
+    }
+    oauth = { issuer: env.OAUTH_ISSUER, jwksFile: env.OAUTH_JWKS_FILE, audience };
+  }
+
+  return { apiKeys, oauth, resourceUrl };
+}
+
+export function isAuthEnabled(config: AuthConfig): boolean {
+  return config.apiKeys.length > 0 || !!config.oauth;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verifies bearer tokens for the HTTP transports: static API keys first,
+ * then JWT access tokens signed by the configured OAuth issuer.
+ */
+export class QuiverTokenVerifier implements OAuthTokenVerifier {
+  private apiKeys: { config: ApiKeyConfig; digest: Buffer }[];
+  private signingKeys = new Map<string | undefined, KeyObject>();
+
+  constructor(private config: AuthConfig) {
+    // Keys are compared by digest so comparisons take constant time regardless of length
+    this.apiKeys = config.apiKeys.map(apiKey => ({ config: apiKey, digest: digest(apiKey.key) }));
+
+    if (config.oauth) {
+      const jwks = JSON.parse(readFileSync(config.oauth.jwksFile, 'utf8'));
+      for (const jwk of jwks.keys || []) {
+        this.signingKeys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const tokenDigest = digest(token);
+    const apiKey = this.apiKeys.find(candidate => timingSafeEqual(candidate.digest, tokenDigest));
+    if (apiKey) {
+      return {
+        token,
+        clientId: apiKey.config.name,
+        scopes: apiKey.config.scopes || Object.values(SCOPES),
+        extra: { tools: apiKey.config.tools }
+      };
+    }
+
+    if (this.config.oauth && token.split('.').length === 3) {
+      return this.verifyJwt(token, this.config.oauth);
+    }
+
+    throw new InvalidTokenError('Invalid access token');
+  }
+
+  private verifyJwt(token: string, oauth: OAuthConfig): AuthInfo {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+
+    let header: any;
+    let claims: any;
+    try {
+      header = decodeSegment(encodedHeader);
+      claims = decodeSegment(encodedPayload);
+    } catch {
+      throw new InvalidTokenError('Malformed access token');
+    }
+
+    const algorithm = JWT_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    // A JWKS with a single key may omit kid
+    const key = this.signingKeys.get(header.kid) || (this.signingKeys.size === 1 ? [...this.signingKeys.values()][0] : undefined);
+    if (!key) {
+      throw new InvalidTokenError('Token signed with an unknown key');
+    }
+
+    const signed = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key, dsaEncoding: algorithm.dsaEncoding, padding: algorithm.padding },
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signed) {
+      throw new InvalidTokenError('Invalid token signature');
+    }
+
+    const now = Date.now() / 1000;
+    if (claims.iss !== oauth.issuer) {
+      throw new InvalidTokenError('Token was not issued by the configured issuer');
+    }
+    if (![claims.aud].flat().includes(oauth.audience)) {
+      throw new InvalidTokenError('Token audience does not include this server');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError('Token is not yet valid');
+    }
+
+    const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [claims.scp || []].flat();
+    return {
+      token,
+      clientId: claims.client_id || claims.azp || claims.sub,
+      scopes,
+      expiresAt: claims.exp,
+      extra: { subject: claims.sub }
+    };
+  }
+}
+
+/**
+ * OAuth 2.0 Protected Resource Metadata (RFC 9728) telling MCP clients which
+ * authorization server issues tokens for this server and which scopes exist.
+ */
+export function protectedResourceMetadata(config: AuthConfig, resource: string): OAuthProtectedResourceMetadata {
+  return {
+    resource,
+    authorization_servers: config.oauth ? [config.oauth.issuer] : [],
+    scopes_supported: Object.values(SCOPES),
+    bearer_methods_supported: ['header'],
+    resource_name: 'Quiver MCP Server'
+  };
+}
+
+/**
+ * Rejects an MCP request whose caller lacks `scope`. Requests without auth
+ * info (stdio, or HTTP with auth disabled) are always allowed.
+ */
+export function requireScope(authInfo: AuthInfo | undefined, scope: string): void {
+  if (authInfo && !authInfo.scopes.includes(scope)) {
+    throw new McpError(FORBIDDEN, `Forbidden: ${authInfo.clientId} lacks the ${scope} scope`);
+  }
+}
+
+export function isToolAllowed(authInfo: AuthInfo | undefined, toolName: string): boolean {
+  const allowlist = authInfo?.extra?.tools;
+  return !Array.isArray(allowlist) || allowlist.includes(toolName);
+}
+
+export function requireToolAllowed(authInfo: AuthInfo | undefined, toolName: string): void {
+  if (!isToolAllowed(authInfo, toolName)) {
+    throw new McpError(FORBIDDEN, `Forbidden: ${authInfo!.clientId} may not call ${toolName}`);
+  }
+}
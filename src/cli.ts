@@ -0,0 +1,351 @@
+#!/usr/bin/env node
+
+import { realpathSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from './quiver-client.js';
+import { quiverTools, MCPTool, ToolCategory, TOOL_CATEGORIES } from './tools.js';
+import { enabledTools } from './server.js';
+import { quiverPrompts, getPrompt, MCPPrompt } from './prompts.js';
+import { quiverResources, quiverDataResources, quiverResourceTemplates, getResource, isDataResource, readDataResource } from './resources.js';
+import { Logger } from './logging.js';
+import { ResponseCache } from './response-cache.js';
+import { UpstreamLimiter } from './upstream-limiter.js';
+import { initConfig, getConfig } from './config.js';
+
+type ParseOptions = NonNullable<ParseArgsConfig['options']>;
+
+// Accepted by every command
+const GLOBAL_OPTIONS: ParseOptions = {
+  config: { type: 'string', short: 'c' },
+  output: { type: 'string', short: 'o' },
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean', short: 'v' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+const USAGE = `Usage: quiver-mcp <command> [arguments] [options]
+
+Commands:
+  tools [--category <name>]     List enabled tools
+  call <tool> [--<arg> <value>] Call a tool; run "quiver-mcp call <tool> --help" for its flags
+  prompts                       List prompts
+  prompt <name> [--<arg> <value>] Render a prompt
+  resources                     List resources and resource templates
+  read <uri>                    Read a resource, e.g. quiver://ticker/AAPL/congress
+
+Options:
+  -c, --config <path>  Configuration file (default: QUIVER_MCP_CONFIG or quiver-mcp.config.yaml)
+  -o, --output <file>  Write the result to a file instead of stdout
+      --json           Print JSON instead of text
+  -v, --verbose        Log upstream requests to stderr
+  -h, --help           Show help
+`;
+
+/**
+ * Invalid command line; reported with a hint and exit code 2.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Argument names are accepted both as written (--page_size) and dashed (--page-size)
+function flagName(name: string): string {
+  return name.replace(/_/g, '-');
+}
+
+function flagOptions(names: string[], optionFor: (name: string) => ParseOptions[string]): ParseOptions {
+  const options: ParseOptions = {};
+  for (const name of names) {
+    options[name] = optionFor(name);
+    options[flagName(name)] = optionFor(name);
+  }
+  return options;
+}
+
+function parse(args: string[], options: ParseOptions) {
+  try {
+    return parseArgs({ args, options: { ...GLOBAL_OPTIONS, ...options }, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function flagValue(values: Record<string, unknown>, name: string): unknown {
+  return values[flagName(name)] ?? values[name];
+}
+
+/**
+ * Converts command-line flags to tool arguments following the tool's
+ * inputSchema: numbers are parsed, enums checked, and array flags may be
+ * repeated or comma-separated.
+ */
+export function toolArguments(tool: MCPTool, values: Record<string, unknown>): Record<string, any> {
+  const properties: Record<string, any> = tool.inputSchema.properties || {};
+  const args: Record<string, any> = {};
+
+  for (const [name, schema] of Object.entries(properties)) {
+    const raw = flagValue(values, name);
+    if (raw === undefined) continue;
+
+    let value: any = raw;
+    if (schema.type === 'number') {
+      value = Number(raw);
+      if (!Number.isFinite(value)) {
+        throw new UsageError(`--${flagName(name)} expects a number, got "${raw}"`);
+      }
+    } else if (schema.type === 'array') {
+      value = (raw as string[]).flatMap(entry => entry.split(',')).map(entry => entry.trim()).filter(Boolean);
+    }
+
+    const allowed: string[] | undefined = schema.enum || schema.items?.enum;
+    const invalid = allowed && [value].flat().filter(entry => !allowed.includes(entry));
+    if (invalid && invalid.length > 0) {
+      throw new UsageError(`--${flagName(name)} must be one of ${allowed!.join(', ')}; got ${invalid.join(', ')}`);
+    }
+    args[name] = value;
+  }
+
+  // Configured defaults apply here too, as in tools/call
+  const withDefaults: Record<string, any> = { ...getConfig().tools.defaults[tool.name], ...args };
+  const missing = (tool.inputSchema.required || []).filter((name: string) => withDefaults[name] === undefined);
+  if (missing.length > 0) {
+    throw new UsageError(`Missing required flags for ${tool.name}: ${missing.map((name: string) => `--${flagName(name)}`).join(', ')}`);
+  }
+  return withDefaults;
+}
+
+function toolOptions(tool: MCPTool): ParseOptions {
+  const properties: Record<string, any> = tool.inputSchema.properties || {};
+  return flagOptions(Object.keys(properties), name => ({
+    type: properties[name].type === 'boolean' ? 'boolean' : 'string',
+    multiple: properties[name].type === 'array'
+  }));
+}
+
+function toolHelp(tool: MCPTool): string {
+  const properties: Record<string, any> = tool.inputSchema.properties || {};
+  const required: string[] = tool.inputSchema.required || [];
+  const lines = Object.entries(properties).map(([name, schema]) => {
+    const values = schema.enum || schema.items?.enum;
+    const type = schema.type === 'array' ? `${schema.items?.type || 'string'}[,...]` : schema.type;
+    return `  --${flagName(name)} <${values ? values.join('|') : type}>${required.includes(name) ? ' (required)' : ''}\n      ${schema.description || ''}`;
+  });
+  return `Usage: quiver-mcp call ${tool.name} [options]\n\n${tool.description}\n\nFlags:\n${lines.join('\n')}\n`;
+}
+
+function promptHelp(prompt: MCPPrompt): string {
+  const lines = (prompt.arguments || []).map(arg => `  --${flagName(arg.name)} <value>${arg.required ? ' (required)' : ''}\n      ${arg.description}`);
+  return `Usage: quiver-mcp prompt ${prompt.name} [options]\n\n${prompt.description}\n\nFlags:\n${lines.join('\n') || '  (none)'}\n`;
+}
+
+// Created with the first client; with cache.diskDir set, repeated runs reuse responses
+let responseCache: ResponseCache | undefined;
+let upstreamLimiter: UpstreamLimiter | undefined;
+
+function createClient(verbose: boolean): QuiverClient {
+  const { upstream, cache } = getConfig();
+  if (!upstream.apiToken) {
+    throw new UsageError('QUIVER_API_TOKEN environment variable (or upstream.apiToken in the config file) is required');
+  }
+
+  // Diagnostics go to stderr so stdout stays clean for pipes
+  const minimum = LoggingLevelSchema.options.indexOf(verbose ? 'debug' : 'warning');
+  const logger = new Logger('quiver-mcp', (level, name, data) => {
+    if (LoggingLevelSchema.options.indexOf(level) >= minimum) {
+      console.error(`[${level}] ${name}: ${typeof data === 'string' ? data : JSON.stringify(data)}`);
+    }
+  });
+  responseCache ??= new ResponseCache(cache);
+  upstreamLimiter ??= new UpstreamLimiter(upstream.limits);
+  return new QuiverClient({
+    baseUrl: upstream.baseUrl,
+    apiToken: upstream.apiToken,
+    timeoutMs: upstream.timeoutMs,
+    retry: upstream.retry,
+    limiter: upstreamLimiter,
+    cache: responseCache
+  }, logger);
+}
+
+// Ctrl-C aborts the upstream request instead of leaving it running
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  return controller.signal;
+}
+
+function requireName<T extends { name: string }>(kind: string, name: string | undefined, entries: T[]): T {
+  if (!name) {
+    throw new UsageError(`Missing ${kind} name. Available: ${entries.map(entry => entry.name).join(', ')}`);
+  }
+  const entry = entries.find(candidate => candidate.name === name);
+  if (!entry) {
+    throw new UsageError(`Unknown ${kind}: ${name}. Available: ${entries.map(candidate => candidate.name).join(', ')}`);
+  }
+  return entry;
+}
+
+/**
+ * Runs one command and returns its output; UsageError reports a bad command line.
+ */
+async function runCommand(command: string, rest: string[]): Promise<{ output: string; failed?: boolean; options: Record<string, unknown> }> {
+  // Flags depend on the tool or prompt, so the name is looked up before parsing
+  const name = rest[0]?.startsWith('-') ? undefined : rest[0];
+
+  switch (command) {
+    case 'tools': {
+      const { values } = parse(rest, { category: { type: 'string' } });
+      if (values.category && !TOOL_CATEGORIES.includes(values.category as ToolCategory)) {
+        throw new UsageError(`Unknown tool category: ${values.category}. Valid categories: ${TOOL_CATEGORIES.join(', ')}`);
+      }
+      initConfig({ path: values.config as string | undefined });
+
+      const tools = enabledTools().filter(tool => !values.category || tool.category === values.category);
+      return {
+        options: values,
+        output: values.json
+          ? JSON.stringify(tools.map(({ name, title, description, category, inputSchema }) => ({ name, title, description, category, inputSchema })), null, 2)
+          : tools.map(tool => `${tool.name.padEnd(34)} ${tool.category.padEnd(10)} ${tool.title}`).join('\n')
+      };
+    }
+
+    case 'call': {
+      const tool = requireName('tool', name, quiverTools);
+      const { values } = parse(rest.slice(1), toolOptions(tool));
+      if (values.help) {
+        return { options: values, output: toolHelp(tool) };
+      }
+      initConfig({ path: values.config as string | undefined });
+      // Flags come from the full tool list; tools.enabled and tools.disabled apply as in the servers
+      if (!enabledTools().includes(tool)) {
+        throw new UsageError(`Tool ${tool.name} is disabled by tools.enabled or tools.disabled in the configuration`);
+      }
+
+      const { cache, ...args } = toolArguments(tool, values);
+      const result = await tool.handler(createClient(!!values.verbose), args, { signal: interruptSignal(), cache });
+      if (result.error) {
+        return { options: values, failed: true, output: `Error: ${result.error} (Status: ${result.status})` };
+      }
+      return {
+        options: values,
+        output: values.json
+          ? JSON.stringify(result, null, 2)
+          : typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2)
+      };
+    }
+
+    case 'prompts': {
+      const { values } = parse(rest, {});
+      return {
+        options: values,
+        output: values.json
+          ? JSON.stringify(quiverPrompts, null, 2)
+          : quiverPrompts.map(prompt => `${prompt.name.padEnd(34)} ${prompt.description}`).join('\n')
+      };
+    }
+
+    case 'prompt': {
+      const prompt = requireName('prompt', name, quiverPrompts);
+      const { values } = parse(rest.slice(1), flagOptions((prompt.arguments || []).map(arg => arg.name), () => ({ type: 'string' })));
+      if (values.help) {
+        return { options: values, output: promptHelp(prompt) };
+      }
+
+      const args = Object.fromEntries((prompt.arguments || [])
+        .map(arg => [arg.name, flagValue(values, arg.name)])
+        .filter(([, value]) => value !== undefined));
+      const missing = (prompt.arguments || []).filter(arg => arg.required && args[arg.name] === undefined);
+      if (missing.length > 0) {
+        throw new UsageError(`Missing required flags for ${prompt.name}: ${missing.map(arg => `--${flagName(arg.name)}`).join(', ')}`);
+      }
+
+      const messages = getPrompt(prompt.name, args);
+      return {
+        options: values,
+        output: values.json
+          ? JSON.stringify({ messages }, null, 2)
+          : messages.map(message => messages.length > 1 ? `[${message.role}]\n${message.content.text}` : message.content.text).join('\n\n')
+      };
+    }
+
+    case 'resources': {
+      const { values } = parse(rest, {});
+      const resources = [...quiverResources, ...quiverDataResources];
+      const rows = [
+        ...resources.map(resource => [resource.uri, resource.name]),
+        ...quiverResourceTemplates.map(template => [template.uriTemplate, template.name])
+      ];
+      return {
+        options: values,
+        output: values.json
+          ? JSON.stringify({ resources, resourceTemplates: quiverResourceTemplates }, null, 2)
+          : rows.map(([uri, title]) => `${uri.padEnd(42)} ${title}`).join('\n')
+      };
+    }
+
+    case 'read': {
+      const { values, positionals } = parse(rest, {});
+      const uri = positionals[0];
+      if (!uri) {
+        throw new UsageError('Missing resource URI');
+      }
+      initConfig({ path: values.config as string | undefined });
+
+      const resource = isDataResource(uri)
+        ? await readDataResource(createClient(!!values.verbose), uri, { signal: interruptSignal() })
+        : getResource(uri);
+      return { options: values, output: resource.contents };
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Runs the CLI with `argv` (without the node and script paths) and returns the exit code.
+ */
+export async function runCli(argv: string[], write: (text: string) => void = text => process.stdout.write(text)): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    write(USAGE);
+    return 0;
+  }
+
+  try {
+    const { output, failed, options } = await runCommand(command, rest);
+    const text = output.endsWith('\n') ? output : `${output}\n`;
+
+    if (failed) {
+      console.error(`❌ ${output}`);
+      return 1;
+    }
+    if (options.output) {
+      writeFileSync(options.output as string, text);
+      console.error(`📝 Wrote ${options.output}`);
+    } else {
+      write(text);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n\nRun "quiver-mcp --help" for usage.`);
+      return 2;
+    }
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    // The process exits right after; let disk cache writes land first
+    await responseCache?.flush();
+  }
+}
+
+// Check if this file is being run directly; npm runs it through a bin symlink
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -0,0 +1,146 @@
+import { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from './quiver-client.js';
+import { QuiverAPIResponse, QuiverRequestOptions } from './types.js';
+import { Logger, silentLogger } from './logging.js';
+import { getConfig } from './config.js';
+
+// The spec caps a completion response at 100 values
+const MAX_COMPLETIONS = 100;
+
+// Fixed vocabularies used by the prompts
+const DATA_TYPES = ['congress', 'lobbying', 'contracts', 'companies', 'funds', 'ticker_data'];
+const FOCUS_AREAS = ['trading', 'government', 'lobbying', 'sentiment'];
+const TIMEFRAMES = ['recent', 'historical', 'both'];
+
+type SuggestionSource = 'tickers' | 'representatives' | 'sectors';
+
+interface CachedSuggestions {
+  expires: number;
+  values: Promise<string[]>;
+}
+
+// Suggestion lists per client, so sessions with different API tokens never share data
+const suggestionCache = new WeakMap<QuiverClient, Map<SuggestionSource, CachedSuggestions>>();
+
+function distinct(response: QuiverAPIResponse, field: string): string[] {
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  const rows = Array.isArray(response.data) ? response.data : [];
+  const values = rows.map(row => row?.[field]).filter((value): value is string => typeof value === 'string' && value.length > 0);
+  return [...new Set(values)].sort((a, b) => a.localeCompare(b));
+}
+
+function fetchSuggestions(client: QuiverClient, source: SuggestionSource, options: QuiverRequestOptions): Promise<string[]> {
+  switch (source) {
+    case 'tickers':
+      return client.getCompanies(undefined, options).then(response => distinct(response, 'ticker'));
+    case 'representatives':
+      return client.getRecentCongressTrading(undefined, 1000, options).then(response => distinct(response, 'representative'));
+    case 'sectors':
+      return client.getCompanies(undefined, options).then(response => distinct(response, 'sector'));
+  }
+}
+
+function getSuggestions(client: QuiverClient, source: SuggestionSource, logger: Logger): Promise<string[]> {
+  let clientCache = suggestionCache.get(client);
+  if (!clientCache) {
+    clientCache = new Map();
+    suggestionCache.set(client, clientCache);
+  }
+
+  const cached = clientCache.get(source);
+  if (cached && cached.expires > Date.now()) {
+    logger.debug(`Suggestion cache hit: ${source}`);
+    return cached.values;
+  }
+
+  logger.debug(`Suggestion cache miss: ${source}`);
+  const values = fetchSuggestions(client, source, { logger });
+  clientCache.set(source, { expires: Date.now() + getConfig().completions.cacheMs, values });
+  // Failed fetches are not cached, so the next keystroke retries
+  values.then(
+    list => logger.debug(`Cached ${list.length} ${source} suggestions`),
+    error => {
+      clientCache!.delete(source);
+      logger.warning(`Could not load ${source} suggestions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  );
+  return values;
+}
+
+// Prefix matches first, then substring matches, both case-insensitive
+function match(candidates: string[], value: string): string[] {
+  const needle = value.toLowerCase();
+  const prefixed = candidates.filter(candidate => candidate.toLowerCase().startsWith(needle));
+  const contained = candidates.filter(candidate => !candidate.toLowerCase().startsWith(needle) && candidate.toLowerCase().includes(needle));
+  return [...prefixed, ...contained];
+}
+
+/**
+ * `focus_areas` is a comma-separated list, so only its last entry is
+ * completed and the earlier ones are kept in each suggestion.
+ */
+function matchList(candidates: string[], value: string): string[] {
+  const parts = value.split(',').map(part => part.trim());
+  const last = parts.pop() || '';
+  const chosen = parts.filter(Boolean);
+  const prefix = chosen.length > 0 ? `${chosen.join(', ')}, ` : '';
+  return match(candidates.filter(candidate => !chosen.includes(candidate)), last).map(candidate => prefix + candidate);
+}
+
+/**
+ * Maps a completion reference and argument to the vocabulary it draws from.
+ * Prompt arguments are matched by name; the `{name}` variable of the
+ * representative template is a representative name.
+ */
+function sourceFor(ref: CompleteRequest['params']['ref'], argument: string): SuggestionSource | string[] | undefined {
+  if (ref.type === 'ref/resource' && argument === 'name' && ref.uri.startsWith('quiver://representative/')) {
+    return 'representatives';
+  }
+
+  switch (argument) {
+    case 'ticker':
+      return 'tickers';
+    case 'representative':
+      return 'representatives';
+    case 'sector':
+      return 'sectors';
+    case 'data_type':
+      return DATA_TYPES;
+    case 'focus_areas':
+      return FOCUS_AREAS;
+    case 'timeframe':
+      return TIMEFRAMES;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Answers `completion/complete` for prompt arguments and resource template
+ * variables. Arguments without a known vocabulary complete to nothing.
+ */
+export async function completeArgument(client: QuiverClient, params: CompleteRequest['params'], logger: Logger = silentLogger): Promise<CompleteResult> {
+  const { name, value } = params.argument;
+  const source = sourceFor(params.ref, name);
+
+  let values: string[] = [];
+  if (Array.isArray(source)) {
+    values = name === 'focus_areas' ? matchList(source, value) : match(source, value);
+  } else if (source) {
+    try {
+      values = match(await getSuggestions(client, source, logger.child('completions')), value);
+    } catch (error) {
+      // Suggestions are best effort; an upstream failure just offers none
+    }
+  }
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS
+    }
+  };
+}
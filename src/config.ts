@@ -0,0 +1,279 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+import { quiverTools, TOOL_CATEGORIES, ToolCategory } from './tools.js';
+import { DEFAULT_TOOL_PROFILE, findToolProfile, unknownProfileMessage } from './tool-profiles.js';
+import { tierNames } from './upstream-limiter.js';
+
+// Looked up in the working directory when QUIVER_MCP_CONFIG is not set
+const DEFAULT_CONFIG_FILES = ['quiver-mcp.config.yaml', 'quiver-mcp.config.yml', 'quiver-mcp.config.json'];
+
+// Durations and counts; env overrides arrive as strings
+const positiveInt = z.coerce.number().int().positive();
+const nonNegativeInt = z.coerce.number().int().nonnegative();
+
+// Checked on parse rather than with z.enum so each typo is reported at its exact entry
+const toolName = z.string().refine(
+  name => quiverTools.some(tool => tool.name === name),
+  name => ({ message: `Unknown tool "${name}"` })
+);
+
+// Defaults applied to a tool's arguments when the caller leaves them out
+const toolDefaultsSchema = z.object({
+  mode: z.enum(['compact', 'summary', 'detailed']).optional(),
+  format: z.enum(['json', 'table', 'csv']).optional(),
+  limit: positiveInt.optional(),
+  fields: z.array(z.string()).optional()
+}).strict();
+
+// A named tool subset; see tool-profiles.ts for how the fields combine
+const toolProfileSchema = z.object({
+  description: z.string().optional(),
+  categories: z.array(z.enum(TOOL_CATEGORIES as [ToolCategory, ...ToolCategory[]])).optional(),
+  tools: z.array(toolName).optional(),
+  exclude: z.array(toolName).optional()
+}).strict();
+
+// Family overrides only name what differs, so their keys get no defaults
+const retryOverrideSchema = z.object({
+  maxAttempts: positiveInt,
+  baseDelayMs: nonNegativeInt,
+  maxDelayMs: nonNegativeInt,
+  maxRetryAfterMs: nonNegativeInt,
+  retryStatuses: z.array(z.number().int().min(400).max(599)),
+  retryTimeouts: z.boolean(),
+  retryNetworkErrors: z.boolean()
+}).partial().strict();
+
+// Backoff for failed upstream GETs; see retry.ts
+const retryConfigSchema = z.object({
+  maxAttempts: positiveInt.default(3),
+  baseDelayMs: nonNegativeInt.default(500),
+  maxDelayMs: nonNegativeInt.default(8000),
+  maxRetryAfterMs: nonNegativeInt.default(30000),
+  retryStatuses: z.array(z.number().int().min(400).max(599)).default([408, 429, 500, 502, 503, 504]),
+  retryTimeouts: z.boolean().default(true),
+  retryNetworkErrors: z.boolean().default(true),
+  families: z.object({
+    live: retryOverrideSchema,
+    bulk: retryOverrideSchema,
+    historical: retryOverrideSchema,
+    reference: retryOverrideSchema,
+    default: retryOverrideSchema
+  }).partial().strict().default({})
+}).strict();
+
+// Upstream budgets; per-family entries narrow the tier's own
+const upstreamLimitSchema = z.object({
+  requestsPerMinute: nonNegativeInt,
+  maxConcurrent: nonNegativeInt
+}).partial().strict();
+
+const upstreamLimitsSchema = z.object({
+  enabled: z.boolean().default(true),
+  tier: z.string().default('tier1'),
+  tiers: z.record(z.string(), upstreamLimitSchema.extend({
+    families: z.object({
+      live: upstreamLimitSchema,
+      bulk: upstreamLimitSchema,
+      historical: upstreamLimitSchema,
+      reference: upstreamLimitSchema,
+      default: upstreamLimitSchema
+    }).partial().strict().optional()
+  }).strict()).default({})
+}).strict().refine(
+  limits => tierNames(limits.tiers).includes(limits.tier),
+  limits => ({ message: `Unknown subscription tier "${limits.tier}". Known tiers: ${tierNames(limits.tiers).join(', ')}`, path: ['tier'] })
+);
+
+const configSchema = z.object({
+  upstream: z.object({
+    baseUrl: z.string().url().default('https://api.quiverquant.com'),
+    apiToken: z.string().default(''),
+    timeoutMs: positiveInt.default(30000),
+    tokenFallback: z.boolean().default(false), // Let HTTP callers without a token use apiToken
+    retry: retryConfigSchema.default({}),
+    limits: upstreamLimitsSchema.default({})
+  }).strict().default({}),
+  tools: z.object({
+    enabled: z.array(toolName).optional(), // All tools when omitted
+    disabled: z.array(toolName).default([]),
+    defaults: z.record(toolName, toolDefaultsSchema).default({}),
+    profile: z.string().default(DEFAULT_TOOL_PROFILE), // Sessions may pick another one
+    profiles: z.record(z.string(), toolProfileSchema).default({})
+  }).strict().refine(
+    tools => findToolProfile(tools.profile, tools.profiles) !== undefined,
+    tools => ({ message: unknownProfileMessage(tools.profile, tools.profiles), path: ['profile'] })
+  ).default({}),
+  transport: z.object({
+    port: z.coerce.number().int().min(0).max(65535).default(3000),
+    corsOrigin: z.string().default('*'),
+    trustProxy: z.union([z.boolean(), z.number().int().nonnegative(), z.string()]).optional(),
+    sseKeepAliveMs: positiveInt.default(25000),
+    shutdownTimeoutMs: nonNegativeInt.default(10000),
+    rateLimits: z.object({
+      requestsPerMinute: nonNegativeInt.default(120),
+      maxConcurrentToolCalls: nonNegativeInt.default(4),
+      heavyTools: z.array(toolName).default(['get_bulk_congress_trading', 'get_ticker_data']),
+      heavyCallsPerMinute: nonNegativeInt.default(10),
+      heavyMaxConcurrent: nonNegativeInt.default(1)
+    }).strict().default({})
+  }).strict().default({}),
+  resources: z.object({
+    refreshMs: positiveInt.default(300000) // How often subscribed live resources are re-read
+  }).strict().default({}),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    maxEntries: positiveInt.default(500),
+    maxBytes: positiveInt.default(64 * 1024 * 1024),
+    diskDir: z.string().optional(), // Keeps entries across restarts
+    ttlMs: z.object({
+      live: nonNegativeInt.default(60000),
+      bulk: nonNegativeInt.default(300000),
+      historical: nonNegativeInt.default(21600000),
+      reference: nonNegativeInt.default(86400000),
+      default: nonNegativeInt.default(300000)
+    }).strict().default({})
+  }).strict().default({}),
+  completions: z.object({
+    cacheMs: nonNegativeInt.default(3600000) // How long suggestion lists are reused
+  }).strict().default({}),
+  logging: z.object({
+    level: LoggingLevelSchema.default('info') // Until a client calls logging/setLevel
+  }).strict().default({})
+}).strict();
+
+export type QuiverMcpConfig = z.infer<typeof configSchema>;
+export type ToolDefaults = z.infer<typeof toolDefaultsSchema>;
+
+// Environment variables overriding config file keys
+const ENV_OVERRIDES: Record<string, { path: string[]; parse?: (value: string) => unknown }> = {
+  QUIVER_BASE_URL: { path: ['upstream', 'baseUrl'] },
+  QUIVER_API_TOKEN: { path: ['upstream', 'apiToken'] },
+  QUIVER_TIMEOUT_MS: { path: ['upstream', 'timeoutMs'] },
+  QUIVER_TOKEN_FALLBACK: { path: ['upstream', 'tokenFallback'], parse: value => value === 'true' },
+  QUIVER_TIER: { path: ['upstream', 'limits', 'tier'] },
+  QUIVER_LIMITS_ENABLED: { path: ['upstream', 'limits', 'enabled'], parse: value => value !== 'false' },
+  QUIVER_RETRY_MAX_ATTEMPTS: { path: ['upstream', 'retry', 'maxAttempts'] },
+  QUIVER_RETRY_BASE_DELAY_MS: { path: ['upstream', 'retry', 'baseDelayMs'] },
+  QUIVER_RETRY_MAX_DELAY_MS: { path: ['upstream', 'retry', 'maxDelayMs'] },
+  QUIVER_TOOL_PROFILE: { path: ['tools', 'profile'] },
+  PORT: { path: ['transport', 'port'] },
+  LIBRECHAT_ORIGIN: { path: ['transport', 'corsOrigin'] },
+  TRUST_PROXY: { path: ['transport', 'trustProxy'], parse: value => value === 'true' ? true : /^\d+$/.test(value) ? Number(value) : value },
+  SSE_KEEPALIVE_MS: { path: ['transport', 'sseKeepAliveMs'] },
+  SHUTDOWN_TIMEOUT_MS: { path: ['transport', 'shutdownTimeoutMs'] },
+  RATE_LIMIT_REQUESTS_PER_MINUTE: { path: ['transport', 'rateLimits', 'requestsPerMinute'] },
+  RATE_LIMIT_MAX_CONCURRENT_TOOL_CALLS: { path: ['transport', 'rateLimits', 'maxConcurrentToolCalls'] },
+  RATE_LIMIT_HEAVY_TOOLS: { path: ['transport', 'rateLimits', 'heavyTools'], parse: value => value.split(',').map(tool => tool.trim()).filter(Boolean) },
+  RATE_LIMIT_HEAVY_CALLS_PER_MINUTE: { path: ['transport', 'rateLimits', 'heavyCallsPerMinute'] },
+  RATE_LIMIT_HEAVY_MAX_CONCURRENT: { path: ['transport', 'rateLimits', 'heavyMaxConcurrent'] },
+  RESOURCE_REFRESH_MS: { path: ['resources', 'refreshMs'] },
+  CACHE_ENABLED: { path: ['cache', 'enabled'], parse: value => value !== 'false' },
+  CACHE_MAX_ENTRIES: { path: ['cache', 'maxEntries'] },
+  CACHE_MAX_BYTES: { path: ['cache', 'maxBytes'] },
+  CACHE_DIR: { path: ['cache', 'diskDir'] },
+  COMPLETION_CACHE_MS: { path: ['completions', 'cacheMs'] },
+  LOG_LEVEL: { path: ['logging', 'level'] }
+};
+
+/**
+ * Invalid configuration; the message lists every offending key.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+function readConfigFile(path: string): unknown {
+  const text = readFileSync(path, 'utf8');
+  try {
+    const parsed = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+    return parsed ?? {};
+  } catch (error) {
+    throw new ConfigError(`Cannot parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function setPath(target: any, path: string[], value: unknown) {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/**
+ * Finds the config file: the explicit path, QUIVER_MCP_CONFIG, or the first
+ * default file name present in the working directory.
+ */
+export function resolveConfigPath(explicitPath?: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const path = explicitPath || env.QUIVER_MCP_CONFIG;
+  if (path) {
+    if (!existsSync(path)) {
+      throw new ConfigError(`Config file not found: ${path}`);
+    }
+    return path;
+  }
+  return DEFAULT_CONFIG_FILES.map(name => resolve(name)).find(candidate => existsSync(candidate));
+}
+
+/**
+ * Loads the config file (if any), applies environment overrides and
+ * validates the result. Throws ConfigError naming each invalid key.
+ */
+export function loadConfig(options: { path?: string; env?: NodeJS.ProcessEnv } = {}): QuiverMcpConfig {
+  const env = options.env || process.env;
+  const path = resolveConfigPath(options.path, env);
+  const raw: any = path ? readConfigFile(path) : {};
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(`Invalid configuration in ${path}: expected an object at the top level`);
+  }
+
+  // Remember which keys came from the environment so errors can name the variable
+  const fromEnv = new Map<string, string>();
+  for (const [name, { path: keyPath, parse }] of Object.entries(ENV_OVERRIDES)) {
+    const value = env[name];
+    if (value !== undefined && value !== '') {
+      setPath(raw, keyPath, parse ? parse(value) : value);
+      fromEnv.set(keyPath.join('.'), name);
+    }
+  }
+
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => {
+      const key = issue.path.map((part, i) => typeof part === 'number' ? `[${part}]` : `${i ? '.' : ''}${part}`).join('') || '(root)';
+      const envName = fromEnv.get(key);
+      return `  - ${key}${envName ? ` (from ${envName})` : ''}: ${issue.message}`;
+    });
+    throw new ConfigError(`Invalid configuration${path ? ` in ${path}` : ''}:\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+let current: QuiverMcpConfig | undefined;
+
+/**
+ * Loads and installs the process-wide configuration. Entry points call this
+ * first so invalid settings stop startup with a readable error.
+ */
+export function initConfig(options: { path?: string; env?: NodeJS.ProcessEnv } = {}): QuiverMcpConfig {
+  current = loadConfig(options);
+  return current;
+}
+
+/**
+ * The process-wide configuration, loaded from the default locations on first use.
+ */
+export function getConfig(): QuiverMcpConfig {
+  return current ??= loadConfig();
+}
@@ -0,0 +1,462 @@
+import { APIEndpoint } from './types.js';
+import { ResponseMode, selectTickerDataSections } from './response-utils.js';
+import { toolOutputSchema, companyRow, fundRow, congressTradeRow, congressHoldingRow, lobbyingRow, contractRow, tickerSnapshotRow, recordRow } from './output-schemas.js';
+import { ToolCategory } from './tools.js';
+
+/**
+ * The MCP tool generated for an endpoint.
+ */
+export interface EndpointTool {
+  name: string;
+  title: string; // Human-readable name shown by client UIs
+  description: string;
+  category: ToolCategory;
+  outputSchema: any;
+  raw?: boolean; // Return the upstream response as is, without mode/format/fields/limit options
+  defaultMode?: ResponseMode; // Default: detailed
+  params?: Record<string, any>; // inputSchema properties handled by the tool rather than sent upstream
+  transform?: (data: any, args: Record<string, any>) => any; // Applied to the upstream data before formatting
+}
+
+export interface QuiverEndpoint extends APIEndpoint {
+  tool: EndpointTool;
+}
+
+// Parameters shared by several endpoints
+const tickerPath = { in: 'path', type: 'string', description: 'Stock ticker symbol' } as const;
+const normalized = { in: 'query', type: 'boolean', description: 'Whether to normalize the data' } as const;
+
+const CONGRESS_TRADE_FIELDS = ['ticker', 'representative', 'transaction_date', 'amount', 'transaction_type'];
+const LOBBYING_FIELDS = ['client_name', 'registrant_name', 'amount', 'date'];
+const CONTRACT_FIELDS = ['ticker', 'amount', 'date', 'description'];
+
+/**
+ * Every QuiverAPI endpoint this server uses, in tool listing order. Each
+ * entry yields a typed QuiverClient method (`client.endpoints.<name>`) and
+ * an MCP tool, so adding an endpoint only takes a new entry here.
+ */
+export const QUIVER_ENDPOINTS = {
+  companies: {
+    path: '/beta/companies',
+    params: {
+      search: {
+        in: 'query',
+        type: 'string',
+        description: 'Partial text search - use company name keywords or ticker symbols (e.g., "Apple" or "AAPL", not "Apple Inc. (NASDAQ:AAPL)")'
+      }
+    },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: ['ticker', 'name', 'exchange', 'market_cap'],
+    defaultLimit: 100,
+    tool: {
+      name: 'get_companies',
+      title: 'Companies',
+      description: 'Get list of companies from QuiverAPI. Returns ticker, name, exchange, market_cap by default. Use search to filter companies and fields parameter to customize output.',
+      category: 'reference',
+      outputSchema: toolOutputSchema(companyRow)
+    }
+  },
+  funds: {
+    path: '/beta/funds',
+    params: {
+      search: {
+        in: 'query',
+        type: 'string',
+        description: 'Partial text search - use fund name keywords or manager names (e.g., "Berkshire" not "Berkshire Hathaway Inc.")'
+      }
+    },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: ['fund_name', 'cik', 'total_value', 'filing_date'],
+    defaultLimit: 50,
+    tool: {
+      name: 'get_funds',
+      title: '13F Funds',
+      description: 'Get fund information from SEC 13F data. Returns fund_name, cik, total_value, filing_date by default. Use search to filter funds.',
+      category: 'reference',
+      outputSchema: toolOutputSchema(fundRow)
+    }
+  },
+  recentCongressTrading: {
+    path: '/beta/live/congresstrading',
+    params: { normalized },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONGRESS_TRADE_FIELDS,
+    defaultLimit: 200,
+    tool: {
+      name: 'get_recent_congress_trading',
+      title: 'Recent Congressional Trading',
+      description: 'Get the most recent transactions by members of U.S. Congress. Returns ticker, representative, transaction_date, amount, transaction_type by default.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow)
+    }
+  },
+  congressHoldings: {
+    path: '/beta/live/congressholdings',
+    params: {},
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: ['ticker', 'representative', 'value', 'shares'],
+    defaultLimit: 100,
+    tool: {
+      name: 'get_congress_holdings',
+      title: 'Congressional Holdings',
+      description: 'Get live congress holdings data. Returns ticker, representative, value, shares by default.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressHoldingRow)
+    }
+  },
+  recentBillSummaries: {
+    path: '/beta/live/bill_summaries',
+    params: {
+      query: {
+        in: 'query',
+        type: 'string',
+        description: 'Partial text search - use distinctive keywords from bill titles, NOT bill numbers or exact full titles'
+      },
+      summary_limit: {
+        in: 'query',
+        type: 'number',
+        description: 'Summary length limit for bill summaries'
+      }
+    },
+    pagination: 'page',
+    tier: 'tier1',
+    tool: {
+      name: 'get_recent_bill_summaries',
+      title: 'Recent Bill Summaries',
+      description: 'Get recent bill summaries. Use partial, distinctive keywords for best results (e.g., "Infrastructure" not "H.R.123"). Avoid exact titles or bill numbers.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(recordRow)
+    }
+  },
+  historicalCongressTrading: {
+    path: '/beta/historical/congresstrading/{ticker}',
+    params: { ticker: tickerPath, normalized },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONGRESS_TRADE_FIELDS,
+    defaultLimit: 200,
+    tool: {
+      name: 'get_historical_congress_trading',
+      title: 'Congressional Trading History',
+      description: 'Get all stock transactions by members of U.S. Congress for a specific ticker. Returns essential trading fields by default. Use summary mode for large datasets.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow)
+    }
+  },
+  tickerData: {
+    path: '/beta/mobile/ticker/{ticker}',
+    params: {
+      ticker: tickerPath,
+      days: {
+        in: 'query',
+        type: 'number',
+        description: 'Number of days of data to retrieve'
+      }
+    },
+    pagination: 'none',
+    tier: 'tier2',
+    tool: {
+      name: 'get_ticker_data',
+      title: 'Ticker Snapshot',
+      description: 'Get comprehensive ticker data for mobile application. Large dataset - use summary mode for overview, sections parameter for modular data, or specify fields for focused data. Available sections: basic, trading, congress, sentiment, contracts, all.',
+      category: 'market',
+      outputSchema: toolOutputSchema(tickerSnapshotRow),
+      defaultMode: 'summary',
+      params: {
+        sections: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['basic', 'trading', 'congress', 'sentiment', 'contracts', 'all']
+          },
+          description: 'Data sections to include: basic (company info), trading (OHLC), congress (congressional trading), sentiment (social data), contracts (gov contracts/lobbying), all (everything)'
+        }
+      },
+      transform: (data, args) => args.sections && !args.sections.includes('all') ? selectTickerDataSections(data, args.sections) : data
+    }
+  },
+  recentHouseTrading: {
+    path: '/beta/live/housetrading',
+    params: { normalized },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONGRESS_TRADE_FIELDS,
+    defaultLimit: 200,
+    tool: {
+      name: 'get_recent_house_trading',
+      title: 'Recent House Trading',
+      description: 'Get the most recent transactions by U.S. Representatives. Returns essential trading fields by default.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow)
+    }
+  },
+  recentSenateTrading: {
+    path: '/beta/live/senatetrading',
+    params: { normalized },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONGRESS_TRADE_FIELDS,
+    defaultLimit: 200,
+    tool: {
+      name: 'get_recent_senate_trading',
+      title: 'Recent Senate Trading',
+      description: 'Get the most recent transactions by U.S. Senators. Returns essential trading fields by default.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow)
+    }
+  },
+  recentGovContracts: {
+    path: '/beta/live/govcontracts',
+    params: {},
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONTRACT_FIELDS,
+    defaultLimit: 50,
+    tool: {
+      name: 'get_recent_gov_contracts',
+      title: 'Quarterly Government Contracts',
+      description: 'Get last quarter government contract amounts for all companies. Returns essential contract information by default.',
+      category: 'contracts',
+      outputSchema: toolOutputSchema(contractRow)
+    }
+  },
+  recentGovContractsAll: {
+    path: '/beta/live/govcontractsall',
+    params: {
+      query: { in: 'query', type: 'string', description: 'Query to filter contracts' }
+    },
+    pagination: 'page',
+    tier: 'tier1',
+    tool: {
+      name: 'get_recent_gov_contracts_all',
+      title: 'Recently Announced Government Contracts',
+      description: 'Get recently announced contracts across all companies',
+      category: 'contracts',
+      outputSchema: toolOutputSchema(contractRow),
+      raw: true
+    }
+  },
+  recentLobbying: {
+    path: '/beta/live/lobbying',
+    params: {
+      query: {
+        in: 'query',
+        type: 'string',
+        description: 'Partial text search - use keywords from issues, client names, or topics. Avoid overly specific or formal names'
+      },
+      client_name: { in: 'query', type: 'string', description: 'Client name filter' },
+      registrant_name: { in: 'query', type: 'string', description: 'Registrant name filter' }
+    },
+    pagination: 'page',
+    tier: 'hobbyist',
+    defaultFields: LOBBYING_FIELDS,
+    defaultLimit: 50,
+    tool: {
+      name: 'get_recent_lobbying',
+      title: 'Recent Lobbying',
+      description: 'Get the most recent lobbying spending instances. Use partial keywords for best results (e.g., "healthcare" not full organization names). Returns client_name, registrant_name, amount, date by default.',
+      category: 'lobbying',
+      outputSchema: toolOutputSchema(lobbyingRow)
+    }
+  },
+  recentLegislation: {
+    path: '/beta/live/legislation',
+    params: {},
+    pagination: 'none',
+    tier: 'tier1',
+    tool: {
+      name: 'get_recent_legislation',
+      title: 'Recent Legislation',
+      description: 'Get recent legislation data',
+      category: 'congress',
+      outputSchema: toolOutputSchema(recordRow),
+      raw: true
+    }
+  },
+  liveOffExchange: {
+    path: '/beta/live/offexchange',
+    params: {},
+    pagination: 'page',
+    tier: 'tier1',
+    tool: {
+      name: 'get_live_off_exchange',
+      title: 'Yesterday\'s Off-Exchange Activity',
+      description: 'Get yesterdays off-exchange activity across all companies',
+      category: 'market',
+      outputSchema: toolOutputSchema(recordRow),
+      raw: true
+    }
+  },
+  historicalGovContracts: {
+    path: '/beta/historical/govcontracts/{ticker}',
+    params: { ticker: tickerPath },
+    pagination: 'none',
+    tier: 'hobbyist',
+    defaultFields: CONTRACT_FIELDS,
+    defaultLimit: 50,
+    tool: {
+      name: 'get_historical_gov_contracts',
+      title: 'Quarterly Government Contracts History',
+      description: 'Get historical quarterly government contracts amounts for a ticker',
+      category: 'contracts',
+      outputSchema: toolOutputSchema(contractRow),
+      raw: true
+    }
+  },
+  historicalGovContractsAll: {
+    path: '/beta/historical/govcontractsall/{ticker}',
+    params: { ticker: tickerPath },
+    pagination: 'none',
+    tier: 'tier1',
+    tool: {
+      name: 'get_historical_gov_contracts_all',
+      title: 'Government Contracts History',
+      description: 'Get historical government contracts for a ticker',
+      category: 'contracts',
+      outputSchema: toolOutputSchema(contractRow),
+      raw: true
+    }
+  },
+  historicalHouseTrading: {
+    path: '/beta/historical/housetrading/{ticker}',
+    params: { ticker: tickerPath },
+    pagination: 'none',
+    tier: 'hobbyist',
+    tool: {
+      name: 'get_historical_house_trading',
+      title: 'House Trading History',
+      description: 'Get all stock transactions by U.S. Representatives for a ticker',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow),
+      raw: true
+    }
+  },
+  historicalSenateTrading: {
+    path: '/beta/historical/senatetrading/{ticker}',
+    params: { ticker: tickerPath },
+    pagination: 'none',
+    tier: 'hobbyist',
+    tool: {
+      name: 'get_historical_senate_trading',
+      title: 'Senate Trading History',
+      description: 'Get all stock transactions by U.S. Senators for a ticker',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow),
+      raw: true
+    }
+  },
+  historicalLobbying: {
+    path: '/beta/historical/lobbying/{ticker}',
+    params: {
+      ticker: tickerPath,
+      query: { in: 'query', type: 'string', description: 'Query to filter lobbying data' },
+      client_name: { in: 'query', type: 'string', description: 'Client name filter' }
+    },
+    pagination: 'page',
+    tier: 'hobbyist',
+    defaultFields: LOBBYING_FIELDS,
+    defaultLimit: 50,
+    tool: {
+      name: 'get_historical_lobbying',
+      title: 'Lobbying History',
+      description: 'Get all lobbying spending instances for a ticker',
+      category: 'lobbying',
+      outputSchema: toolOutputSchema(lobbyingRow),
+      raw: true
+    }
+  },
+  historicalOffExchange: {
+    path: '/beta/historical/offexchange/{ticker}',
+    params: { ticker: tickerPath },
+    pagination: 'none',
+    tier: 'tier1',
+    tool: {
+      name: 'get_historical_off_exchange',
+      title: 'Off-Exchange Activity History',
+      description: 'Get daily historical off-exchange activity for a ticker',
+      category: 'market',
+      outputSchema: toolOutputSchema(recordRow),
+      raw: true
+    }
+  },
+  bulkCongressTrading: {
+    path: '/beta/bulk/congresstrading',
+    params: {
+      ticker: { in: 'query', type: 'string', description: 'Filter by ticker symbol' },
+      representative: { in: 'query', type: 'string', description: 'Filter by representative name' },
+      transaction_date_gte: { in: 'query', type: 'string', description: 'Filter by transaction date (greater than or equal)' },
+      transaction_date_lte: { in: 'query', type: 'string', description: 'Filter by transaction date (less than or equal)' },
+      amount_gte: { in: 'query', type: 'number', description: 'Filter by amount (greater than or equal)' },
+      amount_lte: { in: 'query', type: 'number', description: 'Filter by amount (less than or equal)' },
+      transaction_type: { in: 'query', type: 'string', description: 'Filter by transaction type' }
+    },
+    pagination: 'pages',
+    tier: 'tier2',
+    defaultFields: CONGRESS_TRADE_FIELDS,
+    defaultLimit: 1000,
+    tool: {
+      name: 'get_bulk_congress_trading',
+      title: 'Bulk Congressional Trading',
+      description: 'Get the full history of transactions by members of U.S. Congress. LARGE DATASET - strongly recommend using summary mode and filters to reduce response size.',
+      category: 'congress',
+      outputSchema: toolOutputSchema(congressTradeRow),
+      defaultMode: 'summary'
+    }
+  }
+} satisfies Record<string, QuiverEndpoint>;
+
+export type EndpointName = keyof typeof QUIVER_ENDPOINTS;
+
+type EndpointParams<K extends EndpointName> = (typeof QUIVER_ENDPOINTS)[K]['params'];
+
+type ParamValue<P> = P extends { type: 'number' } ? number : P extends { type: 'boolean' } ? boolean : string;
+
+type IsRequired<P> = P extends { in: 'path' } | { required: true } ? true : false;
+
+type PaginationArgs<S> = S extends 'pages' ? { page?: number; page_size?: number; pages?: number }
+  : S extends 'page' ? { page?: number; page_size?: number }
+  : {};
+
+/**
+ * Arguments of an endpoint's client method: its path parameters (required),
+ * query parameters and, where it pages upstream, page/page_size/pages.
+ */
+export type EndpointArgs<K extends EndpointName> =
+  { [N in keyof EndpointParams<K> as IsRequired<EndpointParams<K>[N]> extends true ? N : never]: ParamValue<EndpointParams<K>[N]> } &
+  { [N in keyof EndpointParams<K> as IsRequired<EndpointParams<K>[N]> extends true ? never : N]?: ParamValue<EndpointParams<K>[N]> } &
+  PaginationArgs<(typeof QUIVER_ENDPOINTS)[K]['pagination']>;
+
+/**
+ * Fills the path template and picks the query parameters from `args`;
+ * arguments the endpoint does not declare are ignored.
+ */
+export function resolveEndpoint(endpoint: APIEndpoint, args: Record<string, any> = {}): { path: string; query: Record<string, any> } {
+  let path = endpoint.path;
+  const query: Record<string, any> = {};
+
+  for (const [name, param] of Object.entries(endpoint.params)) {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') {
+      if (param.in === 'path' || param.required) {
+        throw new Error(`${name} parameter is required`);
+      }
+      continue;
+    }
+    if (param.in === 'path') {
+      path = path.replace(`{${name}}`, encodeURIComponent(String(value)));
+    } else {
+      query[name] = value;
+    }
+  }
+
+  if (endpoint.pagination !== 'none') {
+    for (const name of ['page', 'page_size']) {
+      if (args[name] !== undefined) query[name] = args[name];
+    }
+  }
+  return { path, query };
+}
@@ -0,0 +1,98 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { LoggingLevel, LoggingLevelSchema, LoggingMessageNotification, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from './config.js';
+
+export type LogSink = (level: LoggingLevel, logger: string, data: unknown) => void;
+
+// Syslog severities from least to most severe, as listed by the spec
+const LEVELS = LoggingLevelSchema.options;
+
+/**
+ * Named logger writing to a sink. Diagnostics never go to stdout, which
+ * carries the JSON-RPC stream in stdio mode; a logger without a sink
+ * discards everything.
+ */
+export class Logger {
+  constructor(private name: string, private sink?: LogSink) {}
+
+  /**
+   * Returns a logger with another name that writes to the same sink
+   */
+  child(name: string): Logger {
+    return new Logger(name, this.sink);
+  }
+
+  log(level: LoggingLevel, data: unknown): void {
+    this.sink?.(level, this.name, data);
+  }
+
+  debug(data: unknown): void {
+    this.log('debug', data);
+  }
+
+  info(data: unknown): void {
+    this.log('info', data);
+  }
+
+  notice(data: unknown): void {
+    this.log('notice', data);
+  }
+
+  warning(data: unknown): void {
+    this.log('warning', data);
+  }
+
+  error(data: unknown): void {
+    this.log('error', data);
+  }
+}
+
+export const silentLogger = new Logger('quiver-mcp');
+
+// Minimum level each server's client accepts, for entries sent without one of its loggers
+const clientMinimums = new WeakMap<Server, () => number>();
+
+/**
+ * Whether the client of `server` accepts entries at `level`, given the level
+ * it set with `logging/setLevel`. Servers without a client logger accept all.
+ */
+export function clientAcceptsLevel(server: Server, level: LoggingLevel): boolean {
+  return LEVELS.indexOf(level) >= (clientMinimums.get(server)?.() ?? 0);
+}
+
+type SendLogMessage = (params: LoggingMessageNotification['params']) => Promise<void>;
+
+/**
+ * Loggers that deliver entries to one connected client as
+ * `notifications/message`, dropping those below the level the client set
+ * with `logging/setLevel`. `logger` reaches the client outside any request;
+ * `forRequest` returns one bound to a request, so over Streamable HTTP its
+ * entries travel on that request's response stream.
+ */
+export function createClientLogger(server: Server, name: string = 'quiver-mcp'): {
+  logger: Logger;
+  forRequest: (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => Logger;
+  setLevel: (level: LoggingLevel) => void;
+} {
+  // Minimum level sent to the client until it calls logging/setLevel
+  let minimum = LEVELS.indexOf(getConfig().logging.level);
+  clientMinimums.set(server, () => minimum);
+
+  const sinkFor = (send: SendLogMessage): LogSink => (level, logger, data) => {
+    if (LEVELS.indexOf(level) < minimum) {
+      return;
+    }
+    send({ level, logger, data }).catch(() => {
+      // Logging is best effort; a closed or not yet initialized session drops the entry
+    });
+  };
+
+  return {
+    logger: new Logger(name, sinkFor(params => server.sendLoggingMessage(params))),
+    forRequest: (extra) => new Logger(name, sinkFor(params => extra.sendNotification({ method: 'notifications/message', params }))),
+    setLevel: (level) => {
+      minimum = LEVELS.indexOf(level);
+    }
+  };
+}
@@ -0,0 +1,209 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ErrorCode, JSONRPCMessage, JSONRPCMessageSchema, MessageExtraInfo, RequestId, isJSONRPCError, isJSONRPCRequest, isJSONRPCResponse } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * JSON-RPC error reply that may not be tied to a request id
+ * (invalid requests and parse errors are answered with `id: null`).
+ */
+export interface JSONRPCErrorReply {
+  jsonrpc: '2.0';
+  id: RequestId | null;
+  error: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export type ShimReply = JSONRPCMessage | JSONRPCErrorReply;
+
+export function errorReply(id: RequestId | null, code: number, message: string, data?: unknown): JSONRPCErrorReply {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: { code, message, ...(data !== undefined && { data }) }
+  };
+}
+
+// LSP's RequestCancelled code: MCP never answers a cancelled request, but every /message POST needs a reply
+const REQUEST_CANCELLED = -32800;
+
+/**
+ * Reads the target of an MCP `notifications/cancelled` message or a legacy
+ * LSP-style `$/cancelRequest`, which older clients still send.
+ */
+function parseCancellation(message: JSONRPCMessage): { requestId: RequestId; reason?: string } | undefined {
+  if (!('method' in message)) {
+    return undefined;
+  }
+
+  const params = message.params as Record<string, any> | undefined;
+  if (message.method === 'notifications/cancelled' && params?.requestId !== undefined) {
+    return { requestId: params.requestId, reason: params.reason };
+  }
+  if (message.method === '$/cancelRequest' && params?.id !== undefined) {
+    return { requestId: params.id, reason: params.reason };
+  }
+  return undefined;
+}
+
+/**
+ * In-process transport backing the legacy `/message` endpoint.
+ * Each HTTP POST is dispatched into an MCP server and answered with the
+ * server's reply, so the shim shares every handler with the Streamable HTTP
+ * and stdio transports instead of re-implementing them.
+ */
+export class MessageShimTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  // Requests awaiting a reply across all /message exchanges, so a cancellation
+  // posted in a later exchange can reach the server running the call. Keyed by
+  // caller and id: ids are only unique per caller, and a caller reusing an id
+  // for concurrent requests cancels all of them
+  private static inFlight = new Map<string, Set<MessageShimTransport>>();
+
+  private static inFlightKey(caller: string, id: RequestId): string {
+    return JSON.stringify([caller, id]);
+  }
+
+  private pending = new Map<RequestId, (reply: ShimReply) => void>();
+
+  // Caller verified by the HTTP auth middleware, handed to handlers as extra.authInfo
+  private authInfo?: AuthInfo;
+
+  /**
+   * @param caller Identifies who posted the exchange; only requests from the
+   * same caller can be cancelled by it
+   */
+  constructor(private readonly caller: string) {}
+
+  async start(): Promise<void> {}
+
+  async close(): Promise<void> {
+    for (const id of this.pending.keys()) {
+      this.release(id);
+    }
+    this.pending.clear();
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Server-initiated notifications have no HTTP response to ride on and are dropped
+    if (!isJSONRPCResponse(message) && !isJSONRPCError(message)) {
+      return;
+    }
+
+    const resolve = this.pending.get(message.id);
+    if (resolve) {
+      this.release(message.id);
+      resolve(message);
+    }
+  }
+
+  /**
+   * Aborts an in-flight request and answers it immediately with a
+   * cancellation error, without waiting for the handler to wind down.
+   */
+  cancel(id: RequestId, reason?: string): void {
+    const resolve = this.pending.get(id);
+    if (!resolve) {
+      return;
+    }
+
+    this.release(id);
+    this.onmessage?.({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: id, reason }
+    });
+    resolve(errorReply(id, REQUEST_CANCELLED, reason ? `Request cancelled: ${reason}` : 'Request cancelled'));
+  }
+
+  private release(id: RequestId): void {
+    this.pending.delete(id);
+    const key = MessageShimTransport.inFlightKey(this.caller, id);
+    const transports = MessageShimTransport.inFlight.get(key);
+    transports?.delete(this);
+    if (transports?.size === 0) {
+      MessageShimTransport.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Handles a raw `/message` payload, either a single message or a batch.
+   * Batched calls run concurrently and each invalid entry gets its own error.
+   * Resolves with undefined when the payload held only notifications or
+   * responses, which per JSON-RPC receive no reply.
+   */
+  async receive(payload: unknown, authInfo?: AuthInfo): Promise<ShimReply | ShimReply[] | undefined> {
+    this.authInfo = authInfo;
+
+    if (!Array.isArray(payload)) {
+      return this.receiveOne(payload);
+    }
+
+    if (payload.length === 0) {
+      return errorReply(null, ErrorCode.InvalidRequest, 'Invalid Request: empty batch');
+    }
+
+    const replies = await Promise.all(payload.map(item => this.receiveOne(item)));
+    const answered = replies.filter((reply): reply is ShimReply => reply !== undefined);
+    return answered.length > 0 ? answered : undefined;
+  }
+
+  private async receiveOne(item: unknown): Promise<ShimReply | undefined> {
+    const parsed = JSONRPCMessageSchema.safeParse(item);
+    if (!parsed.success) {
+      const id = (item as any)?.id;
+      return errorReply(
+        typeof id === 'string' || typeof id === 'number' ? id : null,
+        ErrorCode.InvalidRequest,
+        'Invalid Request: not a JSON-RPC 2.0 message'
+      );
+    }
+
+    const message = parsed.data;
+    const cancellation = parseCancellation(message);
+    if (cancellation) {
+      const { requestId, reason } = cancellation;
+      const transports = MessageShimTransport.inFlight.get(MessageShimTransport.inFlightKey(this.caller, requestId));
+      for (const transport of [...(transports ?? [])]) {
+        transport.cancel(requestId, reason);
+      }
+      // `$/cancelRequest` was historically sent with an id and answered with an empty result
+      return isJSONRPCRequest(message) ? { jsonrpc: '2.0', id: message.id, result: {} } : undefined;
+    }
+
+    if (isJSONRPCRequest(message) && this.pending.has(message.id)) {
+      return errorReply(message.id, ErrorCode.InvalidRequest, `Invalid Request: duplicate id ${message.id} in batch`);
+    }
+
+    return this.dispatch(message);
+  }
+
+  /**
+   * Delivers a message to the server and resolves with its reply.
+   * Notifications resolve immediately with undefined.
+   */
+  dispatch(message: JSONRPCMessage): Promise<ShimReply | undefined> {
+    if (!this.onmessage) {
+      return Promise.reject(new Error('Transport is not connected to a server'));
+    }
+
+    if (!isJSONRPCRequest(message)) {
+      this.onmessage(message, { authInfo: this.authInfo });
+      return Promise.resolve(undefined);
+    }
+
+    const reply = new Promise<ShimReply>(resolve => {
+      this.pending.set(message.id, resolve);
+    });
+    const key = MessageShimTransport.inFlightKey(this.caller, message.id);
+    MessageShimTransport.inFlight.set(key, (MessageShimTransport.inFlight.get(key) ?? new Set()).add(this));
+    this.onmessage(message, { authInfo: this.authInfo });
+    return reply;
+  }
+}
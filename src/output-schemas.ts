@@ -0,0 +1,129 @@
+import Ajv from 'ajv';
+
+/**
+ * JSON Schemas for the rows each tool returns as `structuredContent`.
+ * Upstream payloads grow new columns and `fields` can drop any of them, so
+ * known fields are typed but none are required and extra fields are allowed.
+ */
+
+// Scalar column; QuiverAPI leaves missing values null
+function column(description: string) {
+  return {
+    type: ['string', 'number', 'null'],
+    description
+  };
+}
+
+function rowSchema(properties: Record<string, any>) {
+  return {
+    type: 'object',
+    properties,
+    additionalProperties: true
+  };
+}
+
+export const companyRow = rowSchema({
+  ticker: column('Stock ticker symbol'),
+  name: column('Company name'),
+  exchange: column('Listing exchange'),
+  market_cap: column('Market capitalization in USD')
+});
+
+export const fundRow = rowSchema({
+  fund_name: column('Fund or manager name'),
+  cik: column('SEC Central Index Key'),
+  total_value: column('Reported 13F holdings value in USD'),
+  filing_date: column('13F filing date')
+});
+
+export const congressTradeRow = rowSchema({
+  ticker: column('Stock ticker symbol'),
+  representative: column('Member of Congress'),
+  transaction_date: column('Date of the transaction'),
+  amount: column('Reported amount or amount range'),
+  transaction_type: column('Purchase, Sale, or Exchange')
+});
+
+export const congressHoldingRow = rowSchema({
+  ticker: column('Stock ticker symbol'),
+  representative: column('Member of Congress'),
+  value: column('Reported holding value'),
+  shares: column('Number of shares held')
+});
+
+export const lobbyingRow = rowSchema({
+  client_name: column('Organization paying for lobbying'),
+  registrant_name: column('Lobbying firm registered for the client'),
+  amount: column('Amount spent in USD'),
+  date: column('Filing date')
+});
+
+export const contractRow = rowSchema({
+  ticker: column('Stock ticker symbol of the contractor'),
+  amount: column('Contract amount in USD'),
+  date: column('Award or reporting date'),
+  description: column('Contract description')
+});
+
+// Ticker snapshots mix scalars with nested sections (congress, sentiment, contracts)
+export const tickerSnapshotRow = rowSchema({
+  ticker: column('Stock ticker symbol'),
+  name: column('Company name'),
+  price: column('Latest price'),
+  change: column('Price change'),
+  volume: column('Trading volume')
+});
+
+// Bill summaries, legislation and off-exchange rows have no fixed columns here
+export const recordRow = rowSchema({});
+
+/**
+ * Wraps a row schema in the structured tool output envelope built by
+ * `toStructuredContent`.
+ */
+export function toolOutputSchema(row: Record<string, any>) {
+  return {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: row,
+        description: 'Rows after field selection and pagination; a sample of up to 5 rows in summary mode'
+      },
+      total_items: {
+        type: 'number',
+        description: 'Number of rows QuiverAPI returned before limits and pagination'
+      },
+      pagination: {
+        type: 'object',
+        properties: {
+          current_page: { type: 'number' },
+          page_size: { type: 'number' },
+          total_items: { type: 'number' },
+          total_pages: { type: 'number' },
+          has_next: { type: 'boolean' },
+          has_previous: { type: 'boolean' }
+        }
+      }
+    },
+    required: ['items', 'total_items']
+  };
+}
+
+const ajv = new Ajv();
+
+// Compiled once per schema object, i.e. once per tool
+const validators = new WeakMap<object, Ajv.ValidateFunction>();
+
+/**
+ * Checks structured tool output against the tool's outputSchema.
+ * Returns a description of the first mismatch, or undefined when valid.
+ */
+export function validateStructuredContent(schema: object, content: unknown): string | undefined {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate(content) ? undefined : ajv.errorsText(validate.errors);
+}
@@ -0,0 +1,68 @@
+import { ProgressNotification, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverProgressEvent } from './types.js';
+
+// Progress units per upstream page: request sent, bytes received, rows parsed
+const UNITS_PER_PAGE = 3;
+
+/**
+ * Translates tool progress events into `notifications/progress` updates.
+ *
+ * Each upstream page spans three units and formatting adds a final one, so
+ * `total` is known as soon as the page count is. Updates that would not
+ * increase `progress` are dropped, as the spec requires strictly increasing
+ * values.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken,
+  send: (params: ProgressNotification['params']) => Promise<void>
+): (event: QuiverProgressEvent) => void {
+  let pages = 1;
+  let pageIndex = 0;
+  let last = 0;
+
+  // Compared after rounding, since that is the value the client sees
+  const emit = (progress: number, message: string) => {
+    const rounded = Math.round(progress * 100) / 100;
+    if (rounded <= last) {
+      return;
+    }
+    last = rounded;
+    send({
+      progressToken,
+      progress: rounded,
+      total: pages * UNITS_PER_PAGE + 1,
+      message
+    }).catch(() => {
+      // Progress is best effort; a closed stream must not fail the tool call
+    });
+  };
+
+  return (event) => {
+    const base = pageIndex * UNITS_PER_PAGE;
+    const pageLabel = pages > 1 ? ` (page ${pageIndex + 1}/${pages})` : '';
+
+    switch (event.stage) {
+      case 'page':
+        pages = event.pages;
+        pageIndex = event.page - 1;
+        break;
+      case 'request_sent':
+        emit(base + 1, `Request sent to ${event.path}${pageLabel}`);
+        break;
+      case 'bytes_received': {
+        // Without a Content-Length, approach the next unit asymptotically
+        const fraction = event.total
+          ? Math.min(event.loaded / event.total, 0.99)
+          : 1 - 1 / (1 + event.loaded / 65536);
+        emit(base + 1 + fraction, `Received ${event.loaded} bytes${pageLabel}`);
+        break;
+      }
+      case 'rows_parsed':
+        emit(base + UNITS_PER_PAGE, `Parsed ${event.rows} rows${pageLabel}`);
+        break;
+      case 'formatting':
+        emit(pages * UNITS_PER_PAGE + 1, 'Formatting response');
+        break;
+    }
+  };
+}
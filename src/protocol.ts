@@ -0,0 +1,37 @@
+/**
+ * MCP protocol revisions this server negotiates, newest first. Clients asking
+ * for anything else are rejected during initialize.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Assumed for clients that never initialized, e.g. stateless /message calls
+// without an MCP-Protocol-Version header (the Streamable HTTP fallback)
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+// First protocol revision defining each version-dependent feature
+const FEATURE_VERSIONS = {
+  completions: '2025-03-26',
+  tool_annotations: '2025-03-26',
+  audio_content: '2025-03-26',
+  structured_content: '2025-06-18',
+  resource_links: '2025-06-18',
+  titles: '2025-06-18'
+};
+
+export type ProtocolFeature = keyof typeof FEATURE_VERSIONS;
+
+export function isSupportedProtocolVersion(version: string): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+/**
+ * Whether a client that negotiated `version` understands `feature`.
+ * Revisions are dates, so they order correctly as strings.
+ */
+export function supportsFeature(version: string, feature: ProtocolFeature): boolean {
+  return version >= FEATURE_VERSIONS[feature];
+}
+
+export function unsupportedVersionMessage(version: string): string {
+  return `Unsupported protocol version: ${version}. Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`;
+}
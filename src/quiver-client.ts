@@ -1,84 +1,337 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { QuiverConfig, QuiverAPIResponse } from './types.js';
+import { createHash } from 'crypto';
+import { QuiverConfig, QuiverAPIResponse, QuiverProgressEvent, QuiverRequestOptions } from './types.js';
+import { Logger, silentLogger } from './logging.js';
+import { cacheKey, endpointFamily } from './response-cache.js';
+import { describeFailure, retryDelay, retryPolicyFor, waitForRetry } from './retry.js';
+import { QueueAbortedError, higherPriority } from './upstream-limiter.js';
+import { QUIVER_ENDPOINTS, EndpointArgs, EndpointName, QuiverEndpoint, resolveEndpoint } from './endpoints.js';
+
+interface InFlightRequest {
+  response: Promise<QuiverAPIResponse>;
+  controller: AbortController; // Aborted once every caller has cancelled
+  options: QuiverRequestOptions; // As sent upstream; priority rises to the most urgent caller's
+  callers: number;
+  listeners: Set<(event: QuiverProgressEvent) => void>;
+  loggers: Logger[]; // One entry per caller still waiting
+}
+
+// Identical GETs in flight, shared by every client of the process
+const inFlight = new Map<string, InFlightRequest>();
+
+const CANCELLED: QuiverAPIResponse = { error: 'Request cancelled', status: 499 };
+
+// One typed method per registry endpoint
+export type EndpointMethods = {
+  [K in EndpointName]: (args: EndpointArgs<K>, options?: QuiverRequestOptions) => Promise<QuiverAPIResponse>;
+};
 
 export class QuiverClient {
   private client: AxiosInstance;
   private config: QuiverConfig;
+  private logger: Logger;
+  readonly endpoints: EndpointMethods;
 
-  constructor(config: QuiverConfig) {
+  constructor(config: QuiverConfig, logger: Logger = silentLogger) {
     this.config = config;
+    this.logger = logger.child('quiver-client');
+    this.endpoints = Object.fromEntries(
+      Object.keys(QUIVER_ENDPOINTS).map(name => [name, (args: any, options?: QuiverRequestOptions) => this.callEndpoint(name as EndpointName, args, options)])
+    ) as EndpointMethods;
     this.client = axios.create({
       baseURL: config.baseUrl,
-      timeout: 30000,
+      timeout: config.timeoutMs ?? 30000,
       headers: {
         'Authorization': `Token ${config.apiToken}`,
         'Content-Type': 'application/json',
         'User-Agent': 'QuiverMCP/1.0.0'
       }
     });
+  }
 
-    // Add request interceptor for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        console.log(`Making request to: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        return Promise.reject(error);
-      }
-    );
-
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        console.error(`API Error: ${error.response?.status} - ${error.response?.statusText}`);
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Identifies the upstream account this client reads as. Clients built for
+   * the same base URL and token (e.g. by separate HTTP sessions) share it.
+   */
+  get upstreamKey(): string {
+    return `${this.config.baseUrl} ${createHash('sha256').update(this.config.apiToken).digest('hex')}`;
   }
 
   async makeRequest(
     path: string,
     method: string = 'GET',
     params: Record<string, any> = {},
-    data?: any
+    data?: any,
+    options: QuiverRequestOptions = {}
+  ): Promise<QuiverAPIResponse> {
+    const logger = options.logger?.child('quiver-client') || this.logger;
+    options = { ...options, priority: options.priority || (endpointFamily(path) === 'bulk' ? 'bulk' : 'interactive') };
+
+    // Only GETs are cached, and only for endpoint families with a TTL
+    const cache = method.toUpperCase() === 'GET' && options.cache !== 'bypass' && this.config.cache?.ttlFor(path) ? this.config.cache : undefined;
+    const key = cache && cacheKey(this.config.apiToken, method, path, params);
+    if (cache && options.cache !== 'refresh') {
+      const cached = await cache.get(key!);
+      if (cached) {
+        logger.debug(`Cache hit (${cached.tier}): ${method.toUpperCase()} ${path}`);
+        return {
+          data: cached.data,
+          status: cached.status
+        };
+      }
+    }
+
+    // Concurrent identical GETs share one upstream request, cache or not; bypass requests only share with each other
+    if (method.toUpperCase() === 'GET') {
+      const flightKey = `${this.config.baseUrl}${options.cache === 'bypass' ? ' bypass' : ''} ${key ?? cacheKey(this.config.apiToken, method, path, params)}`;
+      return this.coalesce(flightKey, `${method.toUpperCase()} ${path}`, options, logger, (shared, sharedLogger) => this.send(path, method, params, data, shared, sharedLogger, cache, key));
+    }
+    return this.send(path, method, params, data, options, logger, cache, key);
+  }
+
+  /**
+   * Joins the request in flight under `key`, or starts one with `start`. The
+   * shared request runs with its own signal, aborted only once every caller
+   * has cancelled, reports progress and logs to all of them, and is queued
+   * upstream at the most urgent caller's priority.
+   */
+  private coalesce(
+    key: string,
+    label: string,
+    options: QuiverRequestOptions,
+    logger: Logger,
+    start: (shared: QuiverRequestOptions, sharedLogger: Logger) => Promise<QuiverAPIResponse>
   ): Promise<QuiverAPIResponse> {
-    try {
-      const config: AxiosRequestConfig = {
-        method: method.toLowerCase() as any,
-        url: path,
-        params: method === 'GET' ? params : undefined,
-        data: method !== 'GET' ? data : undefined
+    const { signal, onProgress, priority } = options;
+    if (signal?.aborted) {
+      return Promise.resolve(CANCELLED);
+    }
+
+    let request = inFlight.get(key);
+    if (request) {
+      logger.debug(`Joining in-flight request: ${label}`);
+      request.loggers.push(logger);
+      const raised = higherPriority(priority!, request.options.priority!);
+      if (raised !== request.options.priority) {
+        // Later attempts are queued at the new priority too
+        request.options.priority = raised;
+        this.config.limiter?.raisePriority(request.controller.signal, raised);
+      }
+    } else {
+      // The first caller listens before the request starts, as it reports progress and logs synchronously
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        options: { ...options, signal: controller.signal, onProgress: event => created.listeners.forEach(listener => listener(event)) },
+        callers: 0,
+        listeners: new Set(onProgress && [onProgress]),
+        loggers: [logger],
+        response: undefined!
       };
+      // Callers sharing a logger get each entry once
+      const sharedLogger = new Logger('quiver-client', (level, _name, data) => {
+        new Set(created.loggers).forEach(callerLogger => callerLogger.log(level, data));
+      });
+      created.response = start(created.options, sharedLogger).finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      });
+      inFlight.set(key, created);
+      request = created;
+    }
 
-      const response: AxiosResponse = await this.client.request(config);
-      
-      return {
-        data: response.data,
-        status: response.status
+    const shared = request;
+    shared.callers++;
+    if (onProgress) shared.listeners.add(onProgress);
+
+    return new Promise((resolve, reject) => {
+      // Runs on abort and again when the shared request settles; only the first call counts
+      let left = false;
+      const leave = () => {
+        if (left) return;
+        left = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (onProgress) shared.listeners.delete(onProgress);
+        const index = shared.loggers.indexOf(logger);
+        if (index >= 0) shared.loggers.splice(index, 1);
       };
-    } catch (error: any) {
-      return {
-        error: error.response?.data?.message || error.message || 'Unknown error',
-        status: error.response?.status || 500
+      const onAbort = () => {
+        leave();
+        // The last caller out cancels the upstream request; later callers start afresh
+        if (--shared.callers === 0) {
+          if (inFlight.get(key) === shared) inFlight.delete(key);
+          shared.controller.abort();
+        }
+        logger.info(`Request cancelled: ${label}`);
+        resolve(CANCELLED);
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.response.then(response => {
+        leave();
+        resolve(response);
+      }, error => {
+        leave();
+        reject(error);
+      });
+    });
+  }
+
+  // Sends the request upstream, within the limiter's budget and with retries
+  private async send(
+    path: string,
+    method: string,
+    params: Record<string, any>,
+    data: any,
+    options: QuiverRequestOptions,
+    logger: Logger,
+    cache?: QuiverConfig['cache'],
+    key?: string
+  ): Promise<QuiverAPIResponse> {
+    const config: AxiosRequestConfig = {
+      method: method.toLowerCase() as any,
+      url: path,
+      params: method === 'GET' ? params : undefined,
+      data: method !== 'GET' ? data : undefined,
+      signal: options.signal,
+      onDownloadProgress: options.onProgress && ((event) => {
+        options.onProgress!({ stage: 'bytes_received', loaded: event.loaded, total: event.total });
+      })
+    };
+
+    // Only idempotent GETs are retried
+    const policy = method.toUpperCase() === 'GET' && this.config.retry ? retryPolicyFor(this.config.retry, path) : undefined;
+    const maxAttempts = policy?.maxAttempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let release: (() => void) | undefined;
+      try {
+        // Every attempt, retries included, counts against the subscription's limits
+        if (this.config.limiter) {
+          const queuedAt = Date.now();
+          release = await this.config.limiter.acquire(this.config.apiToken, path, options.priority!, options.signal);
+          const waited = Date.now() - queuedAt;
+          if (waited > 0) {
+            logger.debug(`Waited ${waited}ms for upstream capacity: ${method.toUpperCase()} ${path} (${options.priority})`);
+          }
+        }
+
+        logger.debug(`Making request to: ${method.toUpperCase()} ${path}${attempt > 1 ? ` (attempt ${attempt}/${maxAttempts})` : ''}`);
+        options.onProgress?.({ stage: 'request_sent', path });
+        const response: AxiosResponse = await this.client.request(config);
+        options.onProgress?.({
+          stage: 'rows_parsed',
+          rows: Array.isArray(response.data) ? response.data.length : 1
+        });
+        cache?.set(key!, path, response.data, response.status);
+
+        return {
+          data: response.data,
+          status: response.status,
+          attempts: attempt
+        };
+      } catch (error: any) {
+        // Cancelled calls release the connection right away instead of waiting out the timeout
+        if (axios.isCancel(error) || error instanceof QueueAbortedError) {
+          logger.info(`Request cancelled: ${method.toUpperCase()} ${path}`);
+          return {
+            error: 'Request cancelled',
+            status: 499,
+            attempts: attempt
+          };
+        }
+
+        const failure = describeFailure(error, this.config.timeoutMs ?? 30000);
+        const delay = policy && retryDelay(policy, attempt, failure);
+        if (delay === undefined) {
+          logger.error(`API Error: ${error.response?.status || failure.kind} - ${error.response?.statusText || failure.message} (${method.toUpperCase()} ${path})`);
+          return {
+            error: failure.message,
+            status: failure.status,
+            failure: failure.kind,
+            attempts: attempt
+          };
+        }
+
+        logger.warning(`${failure.kind === 'http' ? `HTTP ${failure.status}` : failure.kind} from ${method.toUpperCase()} ${path}; retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+        release?.(); // Backoff should not hold a concurrency slot
+        if (!(await waitForRetry(delay, options.signal))) {
+          logger.info(`Request cancelled: ${method.toUpperCase()} ${path}`);
+          return {
+            error: 'Request cancelled',
+            status: 499,
+            attempts: attempt
+          };
+        }
+      } finally {
+        release?.();
+      }
+    }
+  }
+
+  /**
+   * Walks consecutive upstream pages starting at params.page and concatenates
+   * their rows. Stops early at an empty or short page; any failing page fails
+   * the whole fetch rather than returning a silently truncated dataset.
+   */
+  async makePaginatedRequest(
+    path: string,
+    params: Record<string, any> = {},
+    pages: number = 1,
+    options: QuiverRequestOptions = {}
+  ): Promise<QuiverAPIResponse> {
+    const firstPage = params.page || 1;
+    const rows: any[] = [];
+    let status = 200;
+    let attempts = 0;
+
+    for (let index = 0; index < pages; index++) {
+      options.onProgress?.({ stage: 'page', page: index + 1, pages });
+      const response = await this.makeRequest(path, 'GET', { ...params, page: firstPage + index }, undefined, options);
+
+      attempts += response.attempts ?? 0;
+      if (response.error || !Array.isArray(response.data)) {
+        return { ...response, attempts };
+      }
+
+      rows.push(...response.data);
+      status = response.status;
+
+      if (response.data.length === 0 || (params.page_size && response.data.length < params.page_size)) {
+        break;
+      }
+    }
+
+    return {
+      data: rows,
+      status,
+      attempts
+    };
+  }
+
+  /**
+   * Calls a registry endpoint by name. Endpoints paging upstream with the
+   * `pages` style walk `args.pages` consecutive pages.
+   */
+  async callEndpoint(name: EndpointName, args: Record<string, any> = {}, options: QuiverRequestOptions = {}): Promise<QuiverAPIResponse> {
+    const endpoint: QuiverEndpoint = QUIVER_ENDPOINTS[name];
+    const { path, query } = resolveEndpoint(endpoint, args);
+    if (endpoint.pagination === 'pages') {
+      return this.makePaginatedRequest(path, query, args.pages || 1, options);
     }
+    return this.makeRequest(path, 'GET', query, undefined, options);
   }
 
-  // Specific methods for common endpoints
-  async getCompanies(search?: string): Promise<QuiverAPIResponse> {
-    const params = search ? { search } : {};
-    return this.makeRequest('/beta/companies', 'GET', params);
+  // Shorthands kept for existing callers; new code can use `endpoints`
+  async getCompanies(search?: string, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.companies({ search }, options);
   }
 
-  async getFunds(search?: string): Promise<QuiverAPIResponse> {
-    const params = search ? { search } : {};
-    return this.makeRequest('/beta/funds', 'GET', params);
+  async getFunds(search?: string, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.funds({ search }, options);
   }
 
-  async getRecentCongressTrading(normalized?: boolean, limit?: number): Promise<QuiverAPIResponse> {
-    const response = await this.makeRequest('/beta/live/congresstrading', 'GET', { normalized });
+  async getRecentCongressTrading(normalized?: boolean, limit?: number, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    const response = await this.endpoints.recentCongressTrading({ normalized }, options);
     
     // Apply client-side limiting if limit is specified and response has data
     if (limit && response.data && Array.isArray(response.data)) {
@@ -99,8 +352,8 @@ export class QuiverClient {
     return response;
   }
 
-  async getCongressHoldings(): Promise<QuiverAPIResponse> {
-    return this.makeRequest('/beta/live/congressholdings');
+  async getCongressHoldings(options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.congressHoldings({}, options);
   }
 
   async getRecentBillSummaries(params: {
@@ -108,15 +361,15 @@ export class QuiverClient {
     page_size?: number;
     query?: string;
     summary_limit?: number;
-  } = {}): Promise<QuiverAPIResponse> {
-    return this.makeRequest('/beta/live/bill_summaries', 'GET', params);
+  } = {}, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.recentBillSummaries(params, options);
   }
 
-  async getHistoricalCongressTrading(ticker: string, normalized?: boolean): Promise<QuiverAPIResponse> {
-    return this.makeRequest(`/beta/historical/congresstrading/${ticker}`, 'GET', { normalized });
+  async getHistoricalCongressTrading(ticker: string, normalized?: boolean, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.historicalCongressTrading({ ticker, normalized }, options);
   }
 
-  async getTickerData(ticker: string, days?: number): Promise<QuiverAPIResponse> {
-    return this.makeRequest(`/beta/mobile/ticker/${ticker}`, 'GET', { days });
+  async getTickerData(ticker: string, days?: number, options?: QuiverRequestOptions): Promise<QuiverAPIResponse> {
+    return this.endpoints.tickerData({ ticker, days }, options);
   }
 }
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+// Read from transport.rateLimits in the server configuration
+export interface RateLimitConfig {
+  requestsPerMinute: number; // JSON-RPC messages per client per minute; 0 disables
+  maxConcurrentToolCalls: number; // tools/call in flight per client; 0 disables
+  heavyTools: string[];
+  heavyCallsPerMinute: number; // Separate budget for heavyTools calls; 0 disables
+  heavyMaxConcurrent: number;
+}
+
+// Error code for requests over a rate limit or concurrency cap, echoing HTTP 429 so clients know to back off
+export const RATE_LIMITED = -32029;
+
+// Idle clients are forgotten after this long
+const IDLE_CLIENT_MS = 10 * 60 * 1000;
+
+/**
+ * Rejection carrying how long the client should wait before retrying.
+ */
+export class RateLimitError extends McpError {
+  constructor(reason: string, public readonly retryAfterMs: number) {
+    super(RATE_LIMITED, `Rate limit exceeded: ${reason}; retry after ${Math.ceil(retryAfterMs / 1000)}s`, { retryAfterMs });
+  }
+}
+
+/**
+ * Token bucket refilled continuously at `perMinute` tokens per minute,
+ * holding at most one minute's worth.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.perMinute, this.tokens + ((now - this.updatedAt) * this.perMinute) / 60000);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until `count` tokens are available, without taking them.
+   */
+  timeUntil(count: number): number {
+    this.refill(Date.now());
+    if (this.tokens >= count) {
+      return 0;
+    }
+    // Batches larger than the bucket wait for a full bucket
+    const missing = Math.min(count, this.perMinute) - this.tokens;
+    return Math.ceil((missing * 60000) / this.perMinute);
+  }
+
+  /**
+   * Takes `count` tokens, or returns how many milliseconds until they are available.
+   */
+  take(count: number): number {
+    const waitMs = this.timeUntil(count);
+    if (waitMs === 0) {
+      this.tokens -= count;
+    }
+    return waitMs;
+  }
+
+  isFull(): boolean {
+    this.refill(Date.now());
+    return this.tokens >= this.perMinute;
+  }
+}
+
+interface ClientBudget {
+  requests: TokenBucket;
+  heavyCalls: TokenBucket;
+  activeToolCalls: number;
+  activeHeavyCalls: number;
+  lastSeen: number;
+}
+
+/**
+ * Per-client request rates and tool-call concurrency for the HTTP server.
+ * Clients are identified by API key/OAuth client id, or by IP address for
+ * unauthenticated callers.
+ */
+export class ClientRateLimiter {
+  private clients = new Map<string, ClientBudget>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(private config: RateLimitConfig) {
+    this.sweeper = setInterval(() => this.sweep(), IDLE_CLIENT_MS);
+    this.sweeper.unref();
+  }
+
+  private budget(clientKey: string): ClientBudget {
+    let budget = this.clients.get(clientKey);
+    if (!budget) {
+      budget = {
+        requests: new TokenBucket(this.config.requestsPerMinute),
+        heavyCalls: new TokenBucket(this.config.heavyCallsPerMinute),
+        activeToolCalls: 0,
+        activeHeavyCalls: 0,
+        lastSeen: Date.now()
+      };
+      this.clients.set(clientKey, budget);
+    }
+    budget.lastSeen = Date.now();
+    return budget;
+  }
+
+  // Drops clients whose buckets have refilled and who have nothing in flight
+  private sweep() {
+    const cutoff = Date.now() - IDLE_CLIENT_MS;
+    for (const [clientKey, budget] of this.clients) {
+      if (budget.lastSeen < cutoff && budget.activeToolCalls === 0 && budget.requests.isFull() && budget.heavyCalls.isFull()) {
+        this.clients.delete(clientKey);
+      }
+    }
+  }
+
+  /**
+   * Counts `count` JSON-RPC messages (a batch counts each entry) against the
+   * client's request rate. Throws RateLimitError when the budget is spent.
+   */
+  checkRequest(clientKey: string, count = 1): void {
+    if (this.config.requestsPerMinute === 0) {
+      return;
+    }
+    const waitMs = this.budget(clientKey).requests.take(count);
+    if (waitMs > 0) {
+      throw new RateLimitError(`${this.config.requestsPerMinute} requests per minute`, waitMs);
+    }
+  }
+
+  /**
+   * Reserves a concurrent tool-call slot (and heavy-tool budget) for the
+   * client. Returns the function releasing the slot once the call finishes.
+   */
+  acquireToolCall(clientKey: string, toolName: string): () => void {
+    const budget = this.budget(clientKey);
+    const heavy = this.config.heavyTools.includes(toolName);
+    const { maxConcurrentToolCalls, heavyMaxConcurrent, heavyCallsPerMinute } = this.config;
+
+    // Concurrency slots free up when a running call ends; a second is a reasonable retry hint
+    if (maxConcurrentToolCalls > 0 && budget.activeToolCalls >= maxConcurrentToolCalls) {
+      throw new RateLimitError(`${maxConcurrentToolCalls} concurrent tool calls`, 1000);
+    }
+    if (heavy && heavyMaxConcurrent > 0 && budget.activeHeavyCalls >= heavyMaxConcurrent) {
+      throw new RateLimitError(`${heavyMaxConcurrent} concurrent heavy tool calls (${toolName})`, 1000);
+    }
+    if (heavy && heavyCallsPerMinute > 0) {
+      const waitMs = budget.heavyCalls.take(1);
+      if (waitMs > 0) {
+        throw new RateLimitError(`${heavyCallsPerMinute} heavy tool calls per minute (${toolName})`, waitMs);
+      }
+    }
+
+    budget.activeToolCalls++;
+    if (heavy) budget.activeHeavyCalls++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      budget.activeToolCalls--;
+      if (heavy) budget.activeHeavyCalls--;
+      budget.lastSeen = Date.now();
+    };
+  }
+}
@@ -1,4 +1,8 @@
 import { SERVER_INSTRUCTIONS } from './server-instructions.js';
+import { QuiverClient } from './quiver-client.js';
+import { QuiverAPIResponse, QuiverRequestOptions } from './types.js';
+import { formatResponse } from './response-utils.js';
+import { QUIVER_ENDPOINTS } from './endpoints.js';
 
 export interface MCPResource {
   uri: string;
@@ -7,6 +11,13 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+}
+
 export const quiverResources: MCPResource[] = [
   {
     uri: 'quiver://server/instructions',
@@ -46,6 +57,108 @@ export const quiverResources: MCPResource[] = [
   }
 ];
 
+/**
+ * Resources backed by live QuiverAPI data. Their contents change as Quiver
+ * publishes new filings, so clients can subscribe to them for updates.
+ */
+export const quiverDataResources: MCPResource[] = [
+  {
+    uri: 'quiver://live/congress-trading',
+    name: 'Recent Congressional Trading',
+    description: 'Most recent transactions by members of U.S. Congress',
+    mimeType: 'application/json'
+  }
+];
+
+/**
+ * Templates for per-ticker and per-representative data. Variables are
+ * URI-encoded, e.g. `quiver://representative/Nancy%20Pelosi/trades`.
+ */
+export const quiverResourceTemplates: MCPResourceTemplate[] = [
+  {
+    uriTemplate: 'quiver://ticker/{ticker}/congress',
+    name: 'Congressional Trading by Ticker',
+    description: 'All congressional trades in a ticker',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'quiver://ticker/{ticker}/contracts',
+    name: 'Government Contracts by Ticker',
+    description: 'Government contracts awarded to a company',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'quiver://ticker/{ticker}/lobbying',
+    name: 'Lobbying by Ticker',
+    description: 'Lobbying spending instances for a company',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'quiver://representative/{name}/trades',
+    name: 'Trades by Representative',
+    description: 'Stock transactions reported by a member of Congress',
+    mimeType: 'application/json'
+  }
+];
+
+// Template variables arrive URI-encoded; tickers are matched upper-case upstream
+const tickerParam = (match: RegExpMatchArray) => decodeURIComponent(match[1]).toUpperCase();
+
+// Data-backed URIs and the upstream request behind each
+const dataResourceRoutes: { pattern: RegExp; fetch: (client: QuiverClient, match: RegExpMatchArray, options: QuiverRequestOptions) => Promise<QuiverAPIResponse>; limit?: number }[] = [
+  {
+    pattern: /^quiver:\/\/live\/congress-trading$/,
+    fetch: (client, _match, options) => client.getRecentCongressTrading(undefined, undefined, options),
+    limit: QUIVER_ENDPOINTS.recentCongressTrading.defaultLimit
+  },
+  {
+    pattern: /^quiver:\/\/ticker\/([^/]+)\/congress$/,
+    fetch: (client, match, options) => client.endpoints.historicalCongressTrading({ ticker: tickerParam(match) }, options),
+    limit: QUIVER_ENDPOINTS.historicalCongressTrading.defaultLimit
+  },
+  {
+    pattern: /^quiver:\/\/ticker\/([^/]+)\/contracts$/,
+    fetch: (client, match, options) => client.endpoints.historicalGovContracts({ ticker: tickerParam(match) }, options),
+    limit: QUIVER_ENDPOINTS.historicalGovContracts.defaultLimit
+  },
+  {
+    pattern: /^quiver:\/\/ticker\/([^/]+)\/lobbying$/,
+    fetch: (client, match, options) => client.endpoints.historicalLobbying({ ticker: tickerParam(match) }, options),
+    limit: QUIVER_ENDPOINTS.historicalLobbying.defaultLimit
+  },
+  {
+    pattern: /^quiver:\/\/representative\/([^/]+)\/trades$/,
+    fetch: (client, match, options) => client.endpoints.bulkCongressTrading({ representative: decodeURIComponent(match[1]) }, options),
+    limit: QUIVER_ENDPOINTS.recentCongressTrading.defaultLimit // One representative's trades, not the whole bulk dataset
+  }
+];
+
+export function isDataResource(uri: string): boolean {
+  return dataResourceRoutes.some(route => route.pattern.test(uri));
+}
+
+/**
+ * Reads a data-backed resource through the QuiverClient
+ */
+export async function readDataResource(client: QuiverClient, uri: string, options: QuiverRequestOptions = {}): Promise<{ contents: string; mimeType: string }> {
+  for (const route of dataResourceRoutes) {
+    const match = uri.match(route.pattern);
+    if (!match) continue;
+
+    const response = await route.fetch(client, match, options);
+    if (response.error) {
+      throw new Error(`Failed to read ${uri}: ${response.error} (Status: ${response.status})`);
+    }
+
+    return {
+      contents: JSON.stringify(formatResponse(response, { limit: route.limit })),
+      mimeType: 'application/json'
+    };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
 export function getResource(uri: string): { contents: string; mimeType: string } {
   switch (uri) {
     case 'quiver://server/instructions':
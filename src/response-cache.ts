@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+export type EndpointFamily = 'live' | 'bulk' | 'historical' | 'reference' | 'default';
+
+// How caching applies to one request: bypass skips the cache, refresh refetches and stores the result
+export type CacheMode = 'bypass' | 'refresh';
+
+export interface CacheConfig {
+  enabled: boolean;
+  maxEntries: number;
+  maxBytes: number;
+  diskDir?: string; // Persist entries here so they survive restarts
+  ttlMs: Record<EndpointFamily, number>; // 0 disables caching for the family
+}
+
+// First match wins; paths not listed fall back to the default TTL
+const ENDPOINT_FAMILIES: { family: EndpointFamily; pattern: RegExp }[] = [
+  { family: 'live', pattern: /^\/beta\/live\// },
+  { family: 'bulk', pattern: /^\/beta\/bulk\// },
+  { family: 'historical', pattern: /^\/beta\/historical\// },
+  { family: 'reference', pattern: /^\/beta\/(companies|funds)\b/ }
+];
+
+export function endpointFamily(path: string): EndpointFamily {
+  return ENDPOINT_FAMILIES.find(({ pattern }) => pattern.test(path))?.family || 'default';
+}
+
+/**
+ * Cache key for an upstream request. The token is part of the key (as a
+ * digest) so subscriptions with different entitlements never share entries;
+ * parameters are sorted and undefined ones dropped.
+ */
+export function cacheKey(apiToken: string, method: string, path: string, params: Record<string, any> = {}): string {
+  const normalized = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+    .join('&');
+  const token = createHash('sha256').update(apiToken).digest('hex').slice(0, 16);
+  return `${token} ${method.toUpperCase()} ${path}?${normalized}`;
+}
+
+interface CacheEntry {
+  key: string;
+  data: any;
+  status: number;
+  expires: number;
+  bytes: number;
+}
+
+export interface CachedResponse {
+  data: any;
+  status: number;
+  tier: 'memory' | 'disk';
+}
+
+/**
+ * Upstream responses kept in an in-memory LRU bounded by entry count and
+ * size, optionally written through to a directory so they outlive the
+ * process. Shared by every QuiverClient of a process.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private pendingWrites = new Set<Promise<void>>();
+
+  constructor(private config: CacheConfig) {}
+
+  /**
+   * How long responses from `path` are kept; 0 when they are not cached.
+   */
+  ttlFor(path: string): number {
+    return this.config.enabled ? this.config.ttlMs[endpointFamily(path)] : 0;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      if (entry.expires > Date.now()) {
+        this.entries.set(key, entry); // Most recently used last
+        return { data: entry.data, status: entry.status, tier: 'memory' };
+      }
+      this.bytes -= entry.bytes;
+    }
+
+    const stored = await this.readDisk(key);
+    if (stored) {
+      this.remember(stored);
+      return { data: stored.data, status: stored.status, tier: 'disk' };
+    }
+    return undefined;
+  }
+
+  set(key: string, path: string, data: any, status: number) {
+    const ttl = this.ttlFor(path);
+    if (ttl <= 0) {
+      return;
+    }
+
+    const text = JSON.stringify(data);
+    const entry: CacheEntry = { key, data, status, expires: Date.now() + ttl, bytes: Buffer.byteLength(text) };
+    // Larger than the whole cache: keeping it would evict everything else
+    if (entry.bytes > this.config.maxBytes) {
+      return;
+    }
+
+    this.remember(entry);
+    this.writeDisk(entry, text);
+  }
+
+  private remember(entry: CacheEntry) {
+    const previous = this.entries.get(entry.key);
+    if (previous) {
+      this.entries.delete(entry.key);
+      this.bytes -= previous.bytes;
+    }
+
+    this.entries.set(entry.key, entry);
+    this.bytes += entry.bytes;
+
+    // Evict least recently used entries first
+    for (const [key, oldest] of this.entries) {
+      if (this.entries.size <= this.config.maxEntries && this.bytes <= this.config.maxBytes) break;
+      this.entries.delete(key);
+      this.bytes -= oldest.bytes;
+    }
+  }
+
+  private diskPath(key: string): string | undefined {
+    return this.config.diskDir && join(this.config.diskDir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async readDisk(key: string): Promise<CacheEntry | undefined> {
+    const file = this.diskPath(key);
+    if (!file) {
+      return undefined;
+    }
+
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.readFile(file, 'utf8'));
+      if (entry.key === key && entry.expires > Date.now()) {
+        return entry;
+      }
+      await fs.rm(file, { force: true });
+    } catch {
+      // Missing or unreadable files are plain misses
+    }
+    return undefined;
+  }
+
+  private writeDisk(entry: CacheEntry, text: string) {
+    const file = this.diskPath(entry.key);
+    if (!file) {
+      return;
+    }
+
+    // Written to a temporary name first so readers never see half a file
+    const temporary = `${file}.${process.pid}.tmp`;
+    const write = fs.mkdir(this.config.diskDir!, { recursive: true })
+      .then(() => fs.writeFile(temporary, `{"key":${JSON.stringify(entry.key)},"status":${entry.status},"expires":${entry.expires},"bytes":${entry.bytes},"data":${text}}`))
+      .then(() => fs.rename(temporary, file))
+      .catch(() => fs.rm(temporary, { force: true }).catch(() => {}))
+      .finally(() => this.pendingWrites.delete(write));
+    this.pendingWrites.add(write);
+  }
+
+  /**
+   * Waits for pending disk writes and removes expired files; run at shutdown.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+    if (!this.config.diskDir) {
+      return;
+    }
+
+    const files = await fs.readdir(this.config.diskDir).catch(() => [] as string[]);
+    for (const name of files.filter(name => name.endsWith('.json'))) {
+      const file = join(this.config.diskDir, name);
+      try {
+        const { expires } = JSON.parse(await fs.readFile(file, 'utf8'));
+        if (!(expires > Date.now())) {
+          await fs.rm(file, { force: true });
+        }
+      } catch {
+        await fs.rm(file, { force: true });
+      }
+    }
+  }
+
+  get size(): { entries: number; bytes: number } {
+    return { entries: this.entries.size, bytes: this.bytes };
+  }
+}
@@ -86,6 +86,52 @@ export function formatResponse(
   };
 }
 
+/**
+ * Structured tool output: the rows behind the text rendering
+ */
+export interface StructuredToolOutput {
+  [key: string]: unknown;
+  items: any[];
+  total_items: number;
+  pagination?: PaginationInfo;
+}
+
+/**
+ * Builds the `structuredContent` of a tool result from the same field
+ * selection and pagination as formatResponse, but before any table, CSV or
+ * compact rendering. Summary mode keeps only the sample rows.
+ */
+export function toStructuredContent(
+  response: QuiverAPIResponse,
+  options: ResponseOptions = {}
+): StructuredToolOutput {
+  const rows = Array.isArray(response.data)
+    ? response.data
+    : response.data === undefined || response.data === null ? [] : [response.data];
+
+  let items = rows;
+  if (options.fields && options.explicitFields) {
+    items = selectFields(items, options.fields);
+  }
+
+  let pagination: PaginationInfo | undefined;
+  if (options.page || options.page_size || options.limit) {
+    const paginationResult = applyPagination(items, options);
+    items = paginationResult.data;
+    pagination = paginationResult.pagination;
+  }
+
+  if (options.mode === 'summary') {
+    items = items.slice(0, 5);
+  }
+
+  return {
+    items,
+    total_items: rows.length,
+    ...(pagination && { pagination })
+  };
+}
+
 /**
  * Selects specific fields from array of objects
  */
@@ -268,40 +314,6 @@ export function formatAsCSV(data: any): string {
   return [headerRow, ...dataRows].join('\n');
 }
 
-/**
- * Default field sets for common endpoints
- */
-export const DEFAULT_FIELDS = {
-  companies: ['ticker', 'name', 'exchange', 'market_cap'],
-  funds: ['fund_name', 'cik', 'total_value', 'filing_date'],
-  congress_trading: ['ticker', 'representative', 'transaction_date', 'amount', 'transaction_type'],
-  congress_holdings: ['ticker', 'representative', 'value', 'shares'],
-  lobbying: ['client_name', 'registrant_name', 'amount', 'date'],
-  gov_contracts: ['ticker', 'amount', 'date', 'description'],
-  ticker_data: {
-    basic: ['ticker', 'name', 'price', 'change', 'volume'],
-    trading: ['ticker', 'price', 'change', 'volume', 'high', 'low', 'open'],
-    congress: ['ticker', 'recent_congress_trades', 'congress_sentiment'],
-    sentiment: ['ticker', 'wsb_sentiment', 'options_flow', 'social_sentiment'],
-    contracts: ['ticker', 'gov_contracts', 'lobbying_spending'],
-    all: [] // Empty array means include all fields
-  }
-};
-
-/**
- * Default limits for endpoints
- */
-export const DEFAULT_LIMITS = {
-  companies: 100,
-  funds: 50,
-  congress_trading: 200,
-  congress_holdings: 100,
-  lobbying: 50,
-  gov_contracts: 50,
-  bulk_data: 1000,
-  ticker_data: 1 // Ticker data is per-ticker, so limit of 1
-};
-
 /**
  * Data sections for ticker data
  */
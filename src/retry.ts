@@ -0,0 +1,110 @@
+import { EndpointFamily, endpointFamily } from './response-cache.js';
+
+export type FailureKind = 'http' | 'timeout' | 'network';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first request; 1 disables retries
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // A longer Retry-After gives up instead of waiting
+  retryStatuses: number[];
+  retryTimeouts: boolean;
+  retryNetworkErrors: boolean;
+}
+
+export interface RetryConfig extends RetryPolicy {
+  families: Partial<Record<EndpointFamily, Partial<RetryPolicy>>>; // Overrides per endpoint family
+}
+
+/**
+ * A failed upstream attempt: HTTP errors carry the upstream status, timeouts
+ * map to 504 and connection failures to 502.
+ */
+export interface UpstreamFailure {
+  kind: FailureKind;
+  status: number;
+  message: string;
+  retryAfterMs?: number;
+}
+
+export function retryPolicyFor(config: RetryConfig, path: string): RetryPolicy {
+  const { families, ...policy } = config;
+  return { ...policy, ...families[endpointFamily(path)] };
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classifies an axios error.
+ */
+export function describeFailure(error: any, timeoutMs: number): UpstreamFailure {
+  if (error.response) {
+    const status: number = error.response.status;
+    return {
+      kind: 'http',
+      status,
+      message: error.response.data?.message || error.message || 'Unknown error',
+      retryAfterMs: status === 429 || status === 503 ? parseRetryAfter(error.response.headers?.['retry-after']) : undefined
+    };
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return { kind: 'timeout', status: 504, message: `QuiverAPI did not respond within ${timeoutMs}ms` };
+  }
+  return { kind: 'network', status: 502, message: error.message || 'Unknown error' };
+}
+
+/**
+ * Delay before the attempt following `attempt`, or undefined when the failure
+ * should not be retried. Backoff is exponential with full jitter; a
+ * Retry-After header takes precedence when present.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, failure: UpstreamFailure, random: () => number = Math.random): number | undefined {
+  if (attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+
+  const retryable = failure.kind === 'timeout' ? policy.retryTimeouts
+    : failure.kind === 'network' ? policy.retryNetworkErrors
+    : policy.retryStatuses.includes(failure.status);
+  if (!retryable) {
+    return undefined;
+  }
+
+  if (failure.retryAfterMs !== undefined) {
+    return failure.retryAfterMs <= policy.maxRetryAfterMs ? failure.retryAfterMs : undefined;
+  }
+  return Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
+}
+
+/**
+ * Waits `ms`; resolves false early if `signal` aborts.
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,392 +1,504 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { QuiverClient } from './quiver-client.js';
 import { QuiverConfig } from './types.js';
-import { quiverTools } from './tools.js';
-import { quiverPrompts, getPrompt } from './prompts.js';
-import { quiverResources, getResource } from './resources.js';
-import { SERVER_INSTRUCTIONS } from './server-instructions.js';
+import { createQuiverServer, enabledTools, isKnownToolProfile } from './server.js';
+import { initConfig, QuiverMcpConfig } from './config.js';
+import { MessageShimTransport, errorReply } from './message-transport.js';
+import { isSupportedProtocolVersion, unsupportedVersionMessage } from './protocol.js';
+import { AuthConfig, QuiverTokenVerifier, isAuthEnabled, loadAuthConfig, protectedResourceMetadata } from './auth.js';
+import { unknownProfileMessage } from './tool-profiles.js';
+import { GracefulShutdown } from './shutdown.js';
+import { ResponseCache } from './response-cache.js';
+import { UpstreamLimiter } from './upstream-limiter.js';
+import { ClientRateLimiter, RateLimitError } from './rate-limit.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createHash, randomUUID } from 'crypto';
 import express from 'express';
 import cors from 'cors';
 
 
-// Get configuration from environment
+// Load the config file and environment overrides
+let serverConfig: QuiverMcpConfig;
+try {
+  serverConfig = initConfig();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const { upstream, transport: transportConfig } = serverConfig;
 const config: QuiverConfig = {
-  baseUrl: process.env.QUIVER_BASE_URL || 'https://api.quiverquant.com',
-  apiToken: process.env.QUIVER_API_TOKEN || ''
+  baseUrl: upstream.baseUrl,
+  apiToken: upstream.apiToken,
+  timeoutMs: upstream.timeoutMs,
+  retry: upstream.retry,
+  limiter: new UpstreamLimiter(upstream.limits), // Shared by every session; budgets are kept per token
+  cache: new ResponseCache(serverConfig.cache) // Shared by every session; entries are keyed by token
 };
 
-if (!config.apiToken) {
-  console.error('QUIVER_API_TOKEN environment variable is required');
+// Callers bring their own Quiver subscription; the configured token is only
+// used for callers without one when explicitly enabled
+const allowTokenFallback = upstream.tokenFallback;
+
+if (allowTokenFallback && !config.apiToken) {
+  console.error('QUIVER_TOKEN_FALLBACK=true requires the QUIVER_API_TOKEN environment variable (or upstream.apiToken in the config file)');
   process.exit(1);
 }
 
-// Initialize Quiver client
-const quiverClient = new QuiverClient(config);
+// Shared by callers relying on the environment token
+const fallbackClient = allowTokenFallback ? new QuiverClient(config) : undefined;
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'quiver-mcp-server',
-    version: '1.0.0'
-  },
-  {
-    capabilities: {
-      tools: {},
-      prompts: {
-        listChanged: true
-      },
-      resources: {
-        subscribe: true,
-        listChanged: true
-      },
-    },
-    instructions: SERVER_INSTRUCTIONS
+/**
+ * Returns the QuiverClient for a new session or stateless exchange: an
+ * isolated client for the caller's token, taken from the X-Quiver-Token
+ * header or the `quiver/apiToken` _meta entry of an initialize request.
+ * Returns undefined when the caller brought no token and falling back to
+ * QUIVER_API_TOKEN is not enabled.
+ */
+function clientForRequest(req: express.Request): QuiverClient | undefined {
+  const initializeMeta = isInitializeRequest(req.body) ? req.body.params._meta : undefined;
+  const apiToken = req.header('x-quiver-token') || initializeMeta?.['quiver/apiToken'];
+
+  if (typeof apiToken === 'string' && apiToken.length > 0) {
+    return new QuiverClient({ ...config, apiToken });
   }
-);
+  return fallbackClient;
+}
 
-// Convert tools to MCP format
-const tools = quiverTools.map(tool => ({
-  name: tool.name,
-  description: tool.description,
-  inputSchema: tool.inputSchema
-}));
+function rejectMissingToken(res: express.Response) {
+  res.status(401).json(errorReply(null, -32000, 'Unauthorized: provide a Quiver API token in the X-Quiver-Token header'));
+}
 
-// List tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: tools
-  };
-});
+// Inbound auth: API keys and/or OAuth bearer tokens; the server stays open when neither is configured
+let authConfig: AuthConfig;
+let tokenVerifier: QuiverTokenVerifier;
+let rateLimiter: ClientRateLimiter;
+try {
+  authConfig = loadAuthConfig();
+  tokenVerifier = new QuiverTokenVerifier(authConfig);
+  rateLimiter = new ClientRateLimiter(transportConfig.rateLimits);
+} catch (error) {
+  console.error('Invalid server configuration:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+const authEnabled = isAuthEnabled(authConfig);
+
+/**
+ * Public URL of the MCP endpoint: MCP_RESOURCE_URL, or derived from the
+ * host the request was sent to.
+ */
+function resourceUrl(req: express.Request): string {
+  return authConfig.resourceUrl || `${req.protocol}://${req.get('host')}/mcp`;
+}
+
+// The 401 challenge points at the protected-resource metadata of the URL the caller used
+const requireAuth: express.RequestHandler = authEnabled
+  ? (req, res, next) => requireBearerAuth({
+      verifier: tokenVerifier,
+      resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(new URL(resourceUrl(req)))
+    })(req, res, next)
+  : (_req, _res, next) => next();
 
-// Call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+/**
+ * Verifies a bearer token when one is sent, without rejecting the request.
+ * Used by endpoints that only reveal more detail to authenticated callers.
+ */
+async function optionalAuth(req: express.Request): Promise<AuthInfo | undefined> {
+  const [type, token] = (req.header('authorization') || '').split(' ');
+  if (type?.toLowerCase() !== 'bearer' || !token) {
+    return undefined;
+  }
+  return tokenVerifier.verifyAccessToken(token).catch(() => undefined);
+}
 
+/**
+ * Identifies the caller for rate limiting: the authenticated client, or the IP address without auth.
+ */
+function clientKey(req: express.Request): string {
+  return req.auth ? `client:${req.auth.clientId}` : `ip:${req.ip}`;
+}
+
+/**
+ * Identifies who owns a /message exchange, so requests can only be cancelled
+ * by the caller that sent them: the authenticated client, else the caller's
+ * Quiver token (as a hash), else the IP address.
+ */
+function requestOwner(req: express.Request): string {
+  const apiToken = req.header('x-quiver-token');
+  if (req.auth || !apiToken) {
+    return clientKey(req);
+  }
+  return `token:${createHash('sha256').update(apiToken).digest('hex')}`;
+}
+
+/**
+ * Charges each JSON-RPC message of the request body to the caller's request
+ * budget, answering 429 with a Retry-After header once it is spent.
+ */
+const rateLimitRequests: express.RequestHandler = (req, res, next) => {
   try {
-    // Find the tool
-    const tool = quiverTools.find(t => t.name === name);
-    if (!tool) {
-      throw new Error(`Unknown tool: ${name}`);
+    rateLimiter.checkRequest(clientKey(req), Array.isArray(req.body) ? Math.max(req.body.length, 1) : 1);
+    next();
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) {
+      throw error;
     }
+    res.status(429)
+      .set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)))
+      .json(errorReply(null, error.code, error.message, { retryAfterMs: error.retryAfterMs }));
+  }
+};
 
-    // Execute the tool handler
-    const result = await tool.handler(quiverClient, args);
-
-    if (result.error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${result.error} (Status: ${result.status})`
-          }
-        ],
-        isError: true
-      };
-    }
+/**
+ * Rejects an X-Quiver-Tool-Profile header naming an unknown profile; new
+ * sessions may pick a profile other than tools.profile.
+ */
+const validateToolProfile: express.RequestHandler = (req, res, next) => {
+  const profile = req.header('x-quiver-tool-profile');
+  if (profile && !isKnownToolProfile(profile)) {
+    res.status(400).json(errorReply(null, ErrorCode.InvalidParams, unknownProfileMessage(profile, serverConfig.tools.profiles)));
+    return;
+  }
+  next();
+};
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result.data, null, 2)
-        }
-      ]
+/**
+ * Builds the tool-call hook for a session or exchange: enforces the caller's
+ * rate limits and keeps shutdown waiting until the call finishes.
+ */
+function toolCallGate(key: string) {
+  return (toolName: string) => {
+    const releaseSlot = rateLimiter.acquireToolCall(key, toolName);
+    const endWork = shutdown.beginWork();
+    return () => {
+      releaseSlot();
+      endWork();
     };
+  };
+}
 
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`
-        }
-      ],
-      isError: true
-    };
+// Caller that opened each session; other callers may not use its session id
+const sessionOwners = new WeakMap<object, string>();
+
+/**
+ * Rejects a request for a session opened by a different authenticated caller.
+ */
+function rejectForeignSession(transport: object, req: express.Request, res: express.Response): boolean {
+  const owner = sessionOwners.get(transport);
+  if (owner !== undefined && owner !== req.auth?.clientId) {
+    res.status(403).json(errorReply(null, -32003, 'Forbidden: session belongs to another client'));
+    return true;
   }
-});
+  return false;
+}
+
+// Drains sessions and in-flight tool calls on SIGTERM/SIGINT
+const shutdown = new GracefulShutdown();
+
+// Active Streamable HTTP sessions, keyed by Mcp-Session-Id
+const transports: Record<string, StreamableHTTPServerTransport> = {};
+
+// Active legacy SSE sessions, keyed by the sessionId query parameter
+const sseTransports: Record<string, SSEServerTransport> = {};
+const sseKeepAliveMs = transportConfig.sseKeepAliveMs;
 
 // Create Express app
 const app = express();
-const port = process.env.PORT || 3000;
+const port = transportConfig.port;
 
-// Enable CORS for LibreChat
+// Enable CORS for LibreChat; credentials are only allowed for an explicit origin, never with '*'
+const corsOrigin = transportConfig.corsOrigin;
 app.use(cors({
-  origin: process.env.LIBRECHAT_ORIGIN || '*',
-  credentials: true
+  origin: corsOrigin,
+  credentials: corsOrigin !== '*',
+  exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate']
 }));
 
+// Behind a reverse proxy, rate limits need the client address from X-Forwarded-For
+if (transportConfig.trustProxy !== undefined) {
+  app.set('trust proxy', transportConfig.trustProxy);
+}
+
 app.use(express.json());
 
-// Health check endpoint
-app.get('/health', (_req, res) => {
+// While draining, only health and readiness probes are answered
+app.use((req, res, next) => {
+  if (shutdown.isDraining && req.path !== '/health' && req.path !== '/ready') {
+    res.set('Connection', 'close').status(503).json(errorReply(null, -32000, 'Service Unavailable: server is shutting down'));
+    return;
+  }
+  next();
+});
+
+// Health check endpoint; with auth enabled, details are reserved for authenticated callers
+app.get('/health', async (req, res) => {
+  if (authEnabled && !(await optionalAuth(req))) {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+    return;
+  }
+
   res.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
-    tools: tools.length,
+    tools: enabledTools().length,
+    sessions: {
+      streamable: Object.keys(transports).length,
+      sse: Object.keys(sseTransports).length
+    },
+    upstream: config.limiter!.metrics(),
     version: '1.0.0'
   });
 });
 
-// MCP endpoint info
-app.get('/mcp', (_req, res) => {
+// Readiness probe; turns false as soon as shutdown starts draining
+app.get('/ready', (_req, res) => {
+  res.status(shutdown.isDraining ? 503 : 200).json({ ready: !shutdown.isDraining });
+});
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728), for clients discovering how to authenticate
+app.get('/.well-known/oauth-protected-resource', (req, res) => {
+  res.json(protectedResourceMetadata(authConfig, resourceUrl(req)));
+});
+
+/**
+ * Routes a Streamable HTTP request to the transport owning its session.
+ */
+async function handleSessionRequest(req: express.Request, res: express.Response) {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const transport = sessionId ? transports[sessionId] : undefined;
+
+  if (!transport) {
+    res.status(400).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: 'Bad Request: No valid session ID provided'
+      }
+    });
+    return;
+  }
+
+  if (rejectForeignSession(transport, req, res)) {
+    return;
+  }
+
+  await transport.handleRequest(req, res, req.body);
+}
+
+// Streamable HTTP endpoint - POST carries client messages, opening a session on initialize
+app.post('/mcp', requireAuth, rateLimitRequests, validateToolProfile, async (req, res) => {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+  try {
+    if (sessionId || !isInitializeRequest(req.body)) {
+      await handleSessionRequest(req, res);
+      return;
+    }
+
+    const quiverClient = clientForRequest(req);
+    if (!quiverClient) {
+      rejectMissingToken(res);
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        transports[id] = transport;
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        delete transports[transport.sessionId];
+      }
+    };
+
+    if (req.auth) {
+      sessionOwners.set(transport, req.auth.clientId);
+    }
+
+    const server = shutdown.register(createQuiverServer(quiverClient, {
+      acquireToolCall: toolCallGate(clientKey(req)),
+      toolProfile: req.header('x-quiver-tool-profile')
+    }));
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    console.error('Error handling MCP request:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: -32603,
+          message: 'Internal server error'
+        }
+      });
+    }
+  }
+});
+
+// GET opens the server-to-client SSE stream; plain GETs keep returning server info
+app.get('/mcp', requireAuth, async (req, res) => {
+  if (req.headers.accept?.includes('text/event-stream')) {
+    await handleSessionRequest(req, res);
+    return;
+  }
+
   res.json({
     name: 'quiver-mcp-server',
     version: '1.0.0',
     description: 'MCP server for QuiverAPI Tier 1 endpoints',
-    tools: tools.map(tool => ({
+    tools: enabledTools().map(tool => ({
       name: tool.name,
+      title: tool.title,
       description: tool.description,
+      category: tool.category,
       parameters: tool.inputSchema
     }))
   });
 });
 
-// MCP endpoint - simplified HTTP implementation
-app.post('/message', async (req, res) => {
+// DELETE ends a session
+app.delete('/mcp', requireAuth, handleSessionRequest);
+
+// Legacy HTTP+SSE transport (protocol 2024-11-05) for clients that predate Streamable HTTP
+app.get('/sse', requireAuth, validateToolProfile, async (req, res) => {
+  const quiverClient = clientForRequest(req);
+  if (!quiverClient) {
+    rejectMissingToken(res);
+    return;
+  }
+
+  const transport = new SSEServerTransport('/messages', res);
+  const server = shutdown.register(createQuiverServer(quiverClient, {
+    acquireToolCall: toolCallGate(clientKey(req)),
+    toolProfile: req.header('x-quiver-tool-profile')
+  }));
+  sseTransports[transport.sessionId] = transport;
+  if (req.auth) {
+    sessionOwners.set(transport, req.auth.clientId);
+  }
+
+  // Comment lines keep proxies from timing out idle streams
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, sseKeepAliveMs);
+
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    delete sseTransports[transport.sessionId];
+    server.close().catch(() => {});
+  });
+
+  await server.connect(transport);
+});
+
+app.post('/messages', requireAuth, rateLimitRequests, async (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  const transport = sessionId ? sseTransports[sessionId] : undefined;
+
+  if (!transport) {
+    res.status(400).json(errorReply(null, -32000, 'Bad Request: No valid session ID provided'));
+    return;
+  }
+
+  if (rejectForeignSession(transport, req, res)) {
+    return;
+  }
+
+  await transport.handlePostMessage(req, res, req.body);
+});
+
+// Legacy MCP endpoint - request/response exchanges (single or batched), kept for older clients
+app.post('/message', requireAuth, rateLimitRequests, validateToolProfile, async (req, res) => {
+  // Stateless calls carry their negotiated revision in a header, as on Streamable HTTP
+  const protocolVersion = req.header('mcp-protocol-version');
+  if (protocolVersion && !isSupportedProtocolVersion(protocolVersion)) {
+    res.status(400).json(errorReply(null, ErrorCode.InvalidRequest, unsupportedVersionMessage(protocolVersion)));
+    return;
+  }
+
+  const quiverClient = clientForRequest(req);
+  if (!quiverClient) {
+    rejectMissingToken(res);
+    return;
+  }
+
+  const server = createQuiverServer(quiverClient, {
+    protocolVersion,
+    acquireToolCall: toolCallGate(clientKey(req)),
+    toolProfile: req.header('x-quiver-tool-profile')
+  });
+  const transport = new MessageShimTransport(requestOwner(req));
+
   try {
-    const { method, params } = req.body;
-    
-    let response;
-    
-    if (method === 'initialize') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {
-          protocolVersion: '2025-03-26',
-          capabilities: {
-            tools: {
-              listChanged: true
-            },
-            prompts: {
-              listChanged: true
-            },
-            resources: {
-              listChanged: true,
-              subscribe: true
-            }
-          },
-          serverInfo: {
-            name: 'quiver-mcp-server',
-            version: '1.0.0',
-            instructions: SERVER_INSTRUCTIONS
-          },
-          instructions: SERVER_INSTRUCTIONS
-        }
-      };
-    } else if (method === 'initialized') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {}
-      };
-    } else if (method === 'ping') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {}
-      };
-    } else if (method === 'tools/list') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {
-          tools: tools
-        }
-      };
-    } else if (method === 'tools/call') {
-      const { name, arguments: args } = params;
-      
-      // Find the tool
-      const tool = quiverTools.find(t => t.name === name);
-      if (!tool) {
-        response = {
-          jsonrpc: '2.0',
-          id: req.body.id,
-          error: {
-            code: -32601,
-            message: `Unknown tool: ${name}`
-          }
-        };
-      } else {
-        try {
-          // Execute the tool handler
-          const result = await tool.handler(quiverClient, args);
-          
-          if (result.error) {
-            response = {
-              jsonrpc: '2.0',
-              id: req.body.id,
-              result: {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Error: ${result.error} (Status: ${result.status})`
-                  }
-                ],
-                isError: true
-              }
-            };
-          } else {
-            // Check if result is already formatted by response utils
-            const isFormattedResponse = result && typeof result === 'object' && 
-              ('data' in result || 'summary' in result || 'pagination' in result);
-            
-            if (isFormattedResponse) {
-              response = {
-                jsonrpc: '2.0',
-                id: req.body.id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: typeof result.data === 'string' ? result.data : JSON.stringify(result.data)
-                    }
-                  ]
-                }
-              };
-            } else {
-              response = {
-                jsonrpc: '2.0',
-                id: req.body.id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify(result.data)
-                    }
-                  ]
-                }
-              };
-            }
-          }
-        } catch (error) {
-          response = {
-            jsonrpc: '2.0',
-            id: req.body.id,
-            error: {
-              code: -32603,
-              message: error instanceof Error ? error.message : String(error)
-            }
-          };
-        }
-      }
-    } else if (method === 'resources/list') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {
-          resources: quiverResources
-        }
-      };
-    } else if (method === 'resources/read') {
-      const { uri } = params;
-      try {
-        const resource = getResource(uri);
-        response = {
-          jsonrpc: '2.0',
-          id: req.body.id,
-          result: {
-            contents: [
-              {
-                uri,
-                mimeType: resource.mimeType,
-                text: resource.contents
-              }
-            ]
-          }
-        };
-      } catch (error) {
-        response = {
-          jsonrpc: '2.0',
-          id: req.body.id,
-          error: {
-            code: -32601,
-            message: `Unknown resource: ${uri}`
-          }
-        };
-      }
-    } else if (method === 'prompts/list') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {
-          prompts: quiverPrompts.map(prompt => ({
-            name: prompt.name,
-            description: prompt.description,
-            arguments: prompt.arguments
-          }))
-        }
-      };
-    } else if (method === 'prompts/get') {
-      const { name, arguments: args } = params;
-      try {
-        const messages = getPrompt(name, args || {});
-        response = {
-          jsonrpc: '2.0',
-          id: req.body.id,
-          result: {
-            messages
-          }
-        };
-      } catch (error) {
-        response = {
-          jsonrpc: '2.0',
-          id: req.body.id,
-          error: {
-            code: -32601,
-            message: `Unknown prompt: ${name}`
-          }
-        };
-      }
-    } else if (method === '$/cancelRequest') {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        result: {}
-      };
-    } else {
-      response = {
-        jsonrpc: '2.0',
-        id: req.body.id,
-        error: {
-          code: -32601,
-          message: `Unknown method: ${method}`
-        }
-      };
+    await server.connect(transport);
+    const reply = await transport.receive(req.body, req.auth);
+
+    // Notifications and responses are acknowledged without a body
+    if (reply === undefined) {
+      res.status(202).end();
+      return;
     }
-    
-    res.json(response);
+
+    res.json(reply);
   } catch (error) {
-    res.status(500).json({
-      jsonrpc: '2.0',
-      id: req.body.id,
-      error: {
-        code: -32603,
-        message: error instanceof Error ? error.message : String(error)
-      }
-    });
+    res.status(500).json(errorReply(
+      null,
+      ErrorCode.InternalError,
+      error instanceof Error ? error.message : String(error)
+    ));
+  } finally {
+    await server.close();
+  }
+});
+
+// Malformed JSON bodies are answered as JSON-RPC parse errors rather than HTML error pages
+app.use((error: any, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error?.type === 'entity.parse.failed') {
+    res.status(400).json(errorReply(null, ErrorCode.ParseError, 'Parse error: invalid JSON'));
+    return;
   }
+  next(error);
 });
 
 // Start server
 async function main() {
   try {
     // Start Express server on all interfaces
-    app.listen(Number(port), '0.0.0.0', () => {
+    const httpServer = app.listen(Number(port), '0.0.0.0', () => {
       console.log(`🚀 Quiver MCP Server running on port ${port}`);
       console.log(`📊 Base URL: ${config.baseUrl}`);
-      console.log(`🔧 Available tools: ${tools.length}`);
+      console.log(`🔑 Quiver token: ${allowTokenFallback ? 'per caller, falling back to QUIVER_API_TOKEN' : 'per caller (X-Quiver-Token)'}`);
+      console.log(`🔒 Inbound auth: ${authEnabled ? [authConfig.apiKeys.length && `${authConfig.apiKeys.length} API key(s)`, authConfig.oauth && `OAuth (${authConfig.oauth.issuer})`].filter(Boolean).join(', ') : 'disabled'}`);
+      console.log(`🔧 Available tools: ${enabledTools().length} (default profile: ${serverConfig.tools.profile})`);
       console.log(`🏥 Health check: http://0.0.0.0:${port}/health`);
       console.log(`📋 MCP info: http://0.0.0.0:${port}/mcp`);
-      console.log(`🔗 MCP endpoint: http://0.0.0.0:${port}/message`);
+      console.log(`🔗 MCP endpoint: http://0.0.0.0:${port}/mcp`);
+      console.log(`🔗 Legacy MCP endpoint: http://0.0.0.0:${port}/message`);
+      console.log(`📡 Legacy SSE endpoint: http://0.0.0.0:${port}/sse`);
       console.log(`🌐 External access: http://192.168.1.227:${port}/message`);
     });
-    
+
+    // The listener stays open while draining so readiness probes see ready=false
+    // Responses still being written get a moment before their sockets are cut
+    shutdown.onFlush('http listener', () => new Promise<void>(resolve => {
+      httpServer.close(() => resolve());
+      httpServer.closeIdleConnections();
+      setTimeout(() => httpServer.closeAllConnections(), 1000).unref();
+    }));
+    shutdown.onFlush('response cache', () => config.cache!.flush());
+    shutdown.listen();
+
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
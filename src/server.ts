@@ -0,0 +1,432 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, InitializeRequestSchema, ListToolsRequestSchema, ListPromptsRequestSchema, GetPromptRequestSchema, ListResourcesRequestSchema, ListResourceTemplatesRequestSchema, ReadResourceRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema, CompleteRequestSchema, SetLevelRequestSchema, ServerCapabilities, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { QuiverClient } from './quiver-client.js';
+import { quiverTools, MCPTool, ToolCategory, TOOL_CATEGORIES } from './tools.js';
+import { quiverPrompts, getPrompt } from './prompts.js';
+import { quiverResources, quiverDataResources, quiverResourceTemplates, getResource, isDataResource, readDataResource } from './resources.js';
+import { watchResource } from './subscriptions.js';
+import { completeArgument } from './completions.js';
+import { createClientLogger } from './logging.js';
+import { SCOPES, requireScope, isToolAllowed, requireToolAllowed } from './auth.js';
+import { SERVER_INSTRUCTIONS } from './server-instructions.js';
+import { createProgressReporter } from './progress.js';
+import { toStructuredContent } from './response-utils.js';
+import { validateStructuredContent } from './output-schemas.js';
+import { getConfig } from './config.js';
+import { applyToolProfile, findToolProfile, unknownProfileMessage } from './tool-profiles.js';
+import { DEFAULT_PROTOCOL_VERSION, isSupportedProtocolVersion, supportsFeature, unsupportedVersionMessage } from './protocol.js';
+
+/**
+ * Tools exposed by this server: `tools.enabled` (or every tool) minus `tools.disabled`.
+ */
+export function enabledTools(): MCPTool[] {
+  const { enabled, disabled } = getConfig().tools;
+  return quiverTools.filter(tool => (!enabled || enabled.includes(tool.name)) && !disabled.includes(tool.name));
+}
+
+/**
+ * Whether `name` is a built-in or configured tool profile.
+ */
+export function isKnownToolProfile(name: string): boolean {
+  return findToolProfile(name, getConfig().tools.profiles) !== undefined;
+}
+
+function requireKnownToolProfile(name: unknown): string {
+  if (typeof name !== 'string' || !isKnownToolProfile(name)) {
+    throw new McpError(ErrorCode.InvalidParams, unknownProfileMessage(String(name), getConfig().tools.profiles));
+  }
+  return name;
+}
+
+/**
+ * Enabled tools narrowed to a tool profile.
+ */
+export function profileTools(profileName: string): MCPTool[] {
+  const profile = findToolProfile(profileName, getConfig().tools.profiles);
+  return profile ? applyToolProfile(enabledTools(), profile) : [];
+}
+
+// Switches the calling session to another tool profile
+const SetToolProfileRequestSchema = z.object({
+  method: z.literal('quiver/setToolProfile'),
+  params: z.object({
+    profile: z.string()
+  })
+});
+
+/**
+ * Tool definitions with the fields a client on `protocolVersion` understands:
+ * annotations (also carrying the title) from 2025-03-26, top-level titles and
+ * outputSchema from 2025-06-18. The category and subscription tier travel in `_meta`.
+ */
+function describeTools(tools: MCPTool[], protocolVersion: string) {
+  return tools.map(tool => ({
+    name: tool.name,
+    ...(supportsFeature(protocolVersion, 'titles') && { title: tool.title }),
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    ...(supportsFeature(protocolVersion, 'structured_content') && { outputSchema: tool.outputSchema }),
+    ...(supportsFeature(protocolVersion, 'tool_annotations') && { annotations: { title: tool.title, ...tool.annotations } }),
+    _meta: { 'quiver/category': tool.category, 'quiver/tier': tool.tier }
+  }));
+}
+
+export interface QuiverServerOptions {
+  protocolVersion?: string; // Preset for stateless servers that never see initialize
+  acquireToolCall?: (toolName: string) => () => void; // Runs before each tool call and may throw to reject it; returns the function ending the call
+  toolProfile?: string; // Overrides tools.profile for this server's session
+}
+
+/**
+ * Builds an MCP server wired to the Quiver tools, prompts and resources.
+ * Shared by the stdio and HTTP entry points so both answer identically.
+ * A Server can only be connected to one transport, so HTTP sessions (and
+ * legacy /message exchanges) each get their own instance.
+ */
+export function createQuiverServer(quiverClient: QuiverClient, options: QuiverServerOptions = {}): Server {
+  const capabilities: ServerCapabilities = {
+    tools: {
+      listChanged: true
+    },
+    prompts: {
+      listChanged: true
+    },
+    resources: {
+      subscribe: true,
+      listChanged: true
+    },
+    completions: {},
+    logging: {}
+  };
+
+  const serverInfo = {
+    name: 'quiver-mcp-server',
+    version: '1.0.0'
+  };
+
+  const server = new Server(serverInfo, {
+    capabilities,
+    instructions: SERVER_INSTRUCTIONS
+  });
+
+  // Protocol revision agreed with the client; gates version-dependent output
+  let protocolVersion = options.protocolVersion || DEFAULT_PROTOCOL_VERSION;
+
+  // Tool profile deciding which tools this session can list and call
+  let toolProfile = requireKnownToolProfile(options.toolProfile || getConfig().tools.profile);
+
+  // Initialize handler - answered here rather than by the SDK, whose own
+  // handler falls back to its latest revision for versions we don't support
+  server.setRequestHandler(InitializeRequestSchema, async (request) => {
+    const requested = request.params.protocolVersion;
+    if (!isSupportedProtocolVersion(requested)) {
+      throw new McpError(ErrorCode.InvalidParams, unsupportedVersionMessage(requested));
+    }
+
+    // Clients without a way to set headers pick a profile in _meta
+    const requestedProfile = request.params._meta?.['quiver/toolProfile'];
+    if (requestedProfile !== undefined) {
+      toolProfile = requireKnownToolProfile(requestedProfile);
+    }
+
+    protocolVersion = requested;
+
+    // Capabilities introduced after the negotiated revision are not advertised
+    const { completions, ...baseCapabilities } = capabilities;
+    return {
+      protocolVersion,
+      capabilities: supportsFeature(protocolVersion, 'completions') ? capabilities : baseCapabilities,
+      serverInfo,
+      instructions: SERVER_INSTRUCTIONS
+    };
+  });
+
+  // Diagnostics go to the client as notifications/message, never to stdout
+  const { logger, forRequest, setLevel } = createClientLogger(server);
+
+  // Resource URIs this server's client is subscribed to, with their unsubscribe functions
+  const subscriptions = new Map<string, () => void>();
+
+  // Set logging level handler
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    setLevel(request.params.level);
+    return {};
+  });
+
+  // List tools handler - an optional `category` param (one or several) narrows the list
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.tools);
+    const requested = request.params?.category;
+    const categories: unknown[] | undefined = requested === undefined ? undefined : [requested].flat();
+
+    const unknown = categories?.filter(category => !TOOL_CATEGORIES.includes(category as ToolCategory));
+    if (unknown && unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool category: ${unknown.join(', ')}. Valid categories: ${TOOL_CATEGORIES.join(', ')}`);
+    }
+
+    const tools = profileTools(toolProfile).filter(tool =>
+      (!categories || categories.includes(tool.category)) && isToolAllowed(extra.authInfo, tool.name)
+    );
+    return {
+      tools: describeTools(tools, protocolVersion)
+    };
+  });
+
+  // Set tool profile handler - clients refetch tools/list on the notification
+  server.setRequestHandler(SetToolProfileRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.tools);
+    const profile = requireKnownToolProfile(request.params.profile);
+
+    if (profile !== toolProfile) {
+      toolProfile = profile;
+      await server.sendToolListChanged();
+    }
+    return { profile };
+  });
+
+  // List prompts handler
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    requireScope(extra.authInfo, SCOPES.prompts);
+    return {
+      prompts: quiverPrompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    };
+  });
+
+  // Get prompt handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.prompts);
+    const { name, arguments: args } = request.params;
+
+    try {
+      const messages = getPrompt(name, args || {});
+      return {
+        messages
+      };
+    } catch (error) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+  });
+
+  // List resources handler
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    requireScope(extra.authInfo, SCOPES.resources);
+    return {
+      resources: [...quiverResources, ...quiverDataResources]
+    };
+  });
+
+  // List resource templates handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => {
+    requireScope(extra.authInfo, SCOPES.resources);
+    return {
+      resourceTemplates: quiverResourceTemplates
+    };
+  });
+
+  // Read resource handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.resources);
+    const { uri } = request.params;
+
+    if (isDataResource(uri)) {
+      const resource = await readDataResource(quiverClient, uri, { signal: extra.signal, logger: forRequest(extra) });
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            text: resource.contents
+          }
+        ]
+      };
+    }
+
+    try {
+      const resource = getResource(uri);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            text: resource.contents
+          }
+        ]
+      };
+    } catch (error) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+  });
+
+  // Subscribe handler - data-backed resources are refreshed in the background
+  // and announced with notifications/resources/updated when they change
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.resources);
+    const { uri } = request.params;
+
+    if (!isDataResource(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource does not support subscriptions: ${uri}`);
+    }
+
+    if (!subscriptions.has(uri)) {
+      subscriptions.set(uri, watchResource(quiverClient, uri, () => {
+        server.sendResourceUpdated({ uri }).catch(() => {});
+      }, logger));
+    }
+    return {};
+  });
+
+  // Unsubscribe handler
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    requireScope(extra.authInfo, SCOPES.resources);
+    const { uri } = request.params;
+    subscriptions.get(uri)?.();
+    subscriptions.delete(uri);
+    return {};
+  });
+
+  server.onclose = () => {
+    subscriptions.forEach(unsubscribe => unsubscribe());
+    subscriptions.clear();
+  };
+
+  // Completion handler for prompt arguments and resource template variables
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref } = request.params;
+    requireScope(extra.authInfo, ref.type === 'ref/prompt' ? SCOPES.prompts : SCOPES.resources);
+
+    if (ref.type === 'ref/prompt' && !quiverPrompts.some(prompt => prompt.name === ref.name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    if (ref.type === 'ref/resource' && !quiverResourceTemplates.some(template => template.uriTemplate === ref.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+    }
+
+    return completeArgument(quiverClient, request.params, forRequest(extra));
+  });
+
+  // Call tool handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+
+    // Unknown tools and missing required arguments are protocol errors, not tool failures
+    requireScope(extra.authInfo, SCOPES.tools);
+    const tool = enabledTools().find(t => t.name === name);
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+    if (!profileTools(toolProfile).includes(tool)) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool ${name} is not available in the "${toolProfile}" tool profile`);
+    }
+    requireToolAllowed(extra.authInfo, name);
+
+    // Configured defaults (mode, format, limit, fields) fill in what the caller left out
+    const args: Record<string, any> = { ...getConfig().tools.defaults[name], ...request.params.arguments };
+
+    const missing = (tool.inputSchema.required || []).filter((key: string) => args?.[key] === undefined);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(', ')}`);
+    }
+
+    const requestLogger = forRequest(extra);
+    const release = options.acquireToolCall?.(name);
+
+    try {
+      // Execute the tool handler
+      const progressToken = request.params._meta?.progressToken;
+      const onProgress = progressToken === undefined ? undefined : createProgressReporter(
+        progressToken,
+        (params) => extra.sendNotification({ method: 'notifications/progress', params })
+      );
+
+      // The cache option applies to the upstream request, not to the tool
+      const { cache, ...toolArgs } = args;
+      const result = await tool.handler(quiverClient, toolArgs, { signal: extra.signal, onProgress, logger: requestLogger, cache });
+
+      // Retried upstream requests are reported so clients can tell flaky data from slow data
+      const retried = result.attempts > 1 ? { _meta: { 'quiver/attempts': result.attempts } } : undefined;
+
+      if (result.error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${result.error} (Status: ${result.status}${retried ? `, after ${result.attempts} attempts` : ''})`
+            }
+          ],
+          isError: true,
+          ...retried
+        };
+      }
+
+      // Structured output is only understood by clients on 2025-06-18 or later
+      const structuredContent = supportsFeature(protocolVersion, 'structured_content')
+        ? result.structuredContent || toStructuredContent(result)
+        : undefined;
+
+      if (structuredContent) {
+        const mismatch = validateStructuredContent(tool.outputSchema, structuredContent);
+        if (mismatch) {
+          requestLogger.error(`Structured output of ${name} does not match its outputSchema: ${mismatch}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: structured output does not match the outputSchema of ${name}: ${mismatch}`
+              }
+            ],
+            isError: true
+          };
+        }
+      }
+
+      // Check if result is already formatted by response utils
+      const isFormattedResponse = result && typeof result === 'object' && 
+        ('data' in result || 'summary' in result || 'pagination' in result);
+
+      if (isFormattedResponse) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: typeof result.data === 'string' ? result.data : JSON.stringify(result.data)
+            }
+          ],
+          ...(structuredContent && { structuredContent }),
+          ...retried
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result.data)
+          }
+        ],
+        ...(structuredContent && { structuredContent }),
+        ...retried
+      };
+
+    } catch (error) {
+      requestLogger.error(`Tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    } finally {
+      release?.();
+    }
+  });
+
+  return server;
+}
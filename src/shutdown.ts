@@ -0,0 +1,152 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { getConfig } from './config.js';
+import { clientAcceptsLevel } from './logging.js';
+
+export interface ShutdownOptions {
+  timeoutMs?: number; // How long in-flight tool calls may run once draining starts (default: transport.shutdownTimeoutMs)
+  log?: (message: string) => void; // stdio mode must keep stdout for JSON-RPC
+}
+
+type ShutdownHook = () => void | Promise<void>;
+
+// Streams written before exiting, so buffered log lines are not lost
+function flushStream(stream: NodeJS.WriteStream): Promise<void> {
+  return new Promise(resolve => stream.write('', () => resolve()));
+}
+
+/**
+ * Drains an entry point on SIGTERM/SIGINT: stops taking new work, lets
+ * in-flight tool calls finish within a deadline, tells connected clients the
+ * server is going away and closes their sessions, then runs flush hooks.
+ */
+export class GracefulShutdown {
+  private draining = false;
+  private activeCalls = 0;
+  private idle: (() => void)[] = [];
+  private servers = new Set<Server>();
+  private drainHooks: ShutdownHook[] = [];
+  private flushHooks: { name: string; flush: ShutdownHook }[] = [];
+  private timeoutMs: number;
+  private log: (message: string) => void;
+
+  constructor(options: ShutdownOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? getConfig().transport.shutdownTimeoutMs;
+    this.log = options.log || console.log;
+  }
+
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Marks a tool call as in flight; returns the function ending it.
+   */
+  beginWork(): () => void {
+    this.activeCalls++;
+
+    let finished = false;
+    return () => {
+      if (finished) return;
+      finished = true;
+      this.activeCalls--;
+      // The SDK sends the result after the handler returns; let it go out first
+      setImmediate(() => {
+        if (this.activeCalls === 0) {
+          this.idle.splice(0).forEach(resolve => resolve());
+        }
+      });
+    };
+  }
+
+  /**
+   * Tracks an MCP server so its client is notified and disconnected on shutdown.
+   */
+  register(server: Server): Server {
+    this.servers.add(server);
+
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      this.servers.delete(server);
+    };
+    return server;
+  }
+
+  // Runs first, to stop accepting connections and requests
+  onDrain(hook: ShutdownHook) {
+    this.drainHooks.push(hook);
+  }
+
+  // Runs last, once sessions are closed, to release listeners and persist logs and caches
+  onFlush(name: string, flush: ShutdownHook) {
+    this.flushHooks.push({ name, flush });
+  }
+
+  private waitForIdle(): Promise<boolean> {
+    if (this.activeCalls === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), this.timeoutMs);
+      this.idle.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  async drain(reason: string): Promise<void> {
+    this.draining = true;
+    this.log(`🛑 ${reason}: draining ${this.activeCalls} tool call(s), up to ${this.timeoutMs}ms`);
+
+    for (const hook of this.drainHooks) {
+      await hook();
+    }
+
+    if (!(await this.waitForIdle())) {
+      this.log(`⏱️ Shutdown deadline reached with ${this.activeCalls} tool call(s) still running`);
+    }
+
+    // Best effort: clients may already be gone. The SDK does not apply logging/setLevel, so the notice checks it here
+    await Promise.all([...this.servers].map(async server => {
+      if (clientAcceptsLevel(server, 'notice')) {
+        await server.sendLoggingMessage({ level: 'notice', logger: 'quiver-mcp', data: 'Server is shutting down; reconnect to continue' }).catch(() => {});
+      }
+      await server.close().catch(() => {});
+    }));
+
+    for (const { name, flush } of this.flushHooks) {
+      try {
+        await flush();
+      } catch (error) {
+        this.log(`⚠️ Failed to flush ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    this.log('👋 Shutdown complete');
+    await Promise.all([flushStream(process.stdout), flushStream(process.stderr)]);
+  }
+
+  /**
+   * Drains and exits on the first SIGTERM or SIGINT; a second signal exits immediately.
+   */
+  listen(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']) {
+    for (const signal of signals) {
+      process.on(signal, () => {
+        if (this.draining) {
+          this.log(`⚠️ ${signal} received again, exiting without draining`);
+          process.exit(1);
+        }
+
+        this.drain(`${signal} received`).then(
+          () => process.exit(0),
+          (error) => {
+            this.log(`❌ Shutdown failed: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+          }
+        );
+      });
+    }
+  }
+}
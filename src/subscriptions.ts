@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { QuiverClient } from './quiver-client.js';
+import { readDataResource } from './resources.js';
+import { Logger, silentLogger } from './logging.js';
+import { getConfig } from './config.js';
+
+interface ResourceWatch {
+  listeners: Map<() => void, Logger>; // Update callbacks and the logger of the session owning each
+  fingerprint?: string;
+  timer: NodeJS.Timeout;
+}
+
+// One background refresh per upstream token and URI, keyed by both. Each HTTP
+// session has its own QuiverClient, so sessions sharing a token share the watch
+const watches = new Map<string, ResourceWatch>();
+
+function fingerprint(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+async function refresh(client: QuiverClient, uri: string, watch: ResourceWatch): Promise<void> {
+  try {
+    // Polling must see fresh data; refreshing also updates the cache for other readers
+    // Polls yield to tool calls when the subscription's upstream budget runs low
+    const { contents } = await readDataResource(client, uri, { cache: 'refresh', priority: 'background' });
+    const next = fingerprint(contents);
+    const changed = watch.fingerprint !== undefined && watch.fingerprint !== next;
+    watch.fingerprint = next;
+
+    if (changed) {
+      watch.listeners.forEach((logger, listener) => {
+        logger.debug(`Resource changed: ${uri}`);
+        listener();
+      });
+    }
+  } catch (error) {
+    // A failed refresh keeps the previous fingerprint; the next one retries
+    const message = error instanceof Error ? error.message : String(error);
+    watch.listeners.forEach(logger => logger.warning(`Refresh failed, retrying in ${getConfig().resources.refreshMs}ms: ${message}`));
+  }
+}
+
+/**
+ * Starts watching a data-backed resource and calls `onUpdate` whenever a
+ * background refresh sees its contents change. Returns a function that
+ * removes the listener, stopping the refresh once nobody is listening.
+ */
+export function watchResource(client: QuiverClient, uri: string, onUpdate: () => void, logger: Logger = silentLogger): () => void {
+  const key = `${client.upstreamKey} ${uri}`;
+  let watch = watches.get(key);
+  const isNew = !watch;
+  if (!watch) {
+    // Refreshes go through the first subscriber's client; the others read as the same token
+    const created: ResourceWatch = {
+      listeners: new Map(),
+      timer: setInterval(() => refresh(client, uri, created), getConfig().resources.refreshMs)
+    };
+    // Subscriptions alone must not keep the process alive
+    created.timer.unref();
+    watches.set(key, created);
+    watch = created;
+  }
+
+  const activeWatch = watch;
+  activeWatch.listeners.set(onUpdate, logger.child('subscriptions'));
+
+  if (isNew) {
+    // Record the baseline so the first change can be detected
+    refresh(client, uri, activeWatch);
+  }
+
+  return () => {
+    activeWatch.listeners.delete(onUpdate);
+    if (activeWatch.listeners.size === 0) {
+      clearInterval(activeWatch.timer);
+      if (watches.get(key) === activeWatch) {
+        watches.delete(key);
+      }
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { MCPTool, ToolCategory } from './tools.js';
+
+/**
+ * Named subset of the tools a client sees. A tool is included when its
+ * category is listed or it is named in `tools`; a profile listing neither
+ * includes every tool. `exclude` removes tools afterwards.
+ */
+export interface ToolProfile {
+  description?: string;
+  categories?: ToolCategory[];
+  tools?: string[];
+  exclude?: string[];
+}
+
+// Available without configuration; configured profiles with the same name replace them
+export const BUILTIN_TOOL_PROFILES: Record<string, ToolProfile> = {
+  full: { description: 'Every enabled tool' },
+  congress: { description: 'Congressional trading, holdings and legislation', categories: ['congress'] },
+  lobbying: { description: 'Lobbying disclosures', categories: ['lobbying'] },
+  contracts: { description: 'Government contracts', categories: ['contracts'] },
+  market: { description: 'Ticker snapshots and off-exchange activity', categories: ['market'] },
+  reference: { description: 'Companies and 13F funds', categories: ['reference'] }
+};
+
+export const DEFAULT_TOOL_PROFILE = 'full';
+
+/**
+ * Looks up a profile among the configured and built-in ones. Only own keys
+ * count, so names like `constructor` or `__proto__` are unknown profiles.
+ */
+export function findToolProfile(name: string, configured: Record<string, ToolProfile> = {}): ToolProfile | undefined {
+  if (Object.hasOwn(configured, name)) {
+    return configured[name];
+  }
+  return Object.hasOwn(BUILTIN_TOOL_PROFILES, name) ? BUILTIN_TOOL_PROFILES[name] : undefined;
+}
+
+export function toolProfileNames(configured: Record<string, ToolProfile> = {}): string[] {
+  return [...new Set([...Object.keys(BUILTIN_TOOL_PROFILES), ...Object.keys(configured)])];
+}
+
+export function unknownProfileMessage(name: string, configured: Record<string, ToolProfile> = {}): string {
+  return `Unknown tool profile "${name}". Available profiles: ${toolProfileNames(configured).join(', ')}`;
+}
+
+/**
+ * Narrows `tools` to those the profile includes.
+ */
+export function applyToolProfile(tools: MCPTool[], profile: ToolProfile): MCPTool[] {
+  const { categories, tools: names, exclude = [] } = profile;
+  const selectsAll = !categories?.length && !names?.length;
+
+  return tools.filter(tool =>
+    (selectsAll || categories?.includes(tool.category) || names?.includes(tool.name)) && !exclude.includes(tool.name)
+  );
+}
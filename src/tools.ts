@@ -1,13 +1,66 @@
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { QuiverClient } from './quiver-client.js';
-import { formatResponse, ResponseOptions, DEFAULT_FIELDS, DEFAULT_LIMITS, TICKER_DATA_SECTIONS, selectTickerDataSections } from './response-utils.js';
+import { APIParameter, QuiverAPIResponse, QuiverRequestOptions } from './types.js';
+import { formatResponse, toStructuredContent, ResponseOptions } from './response-utils.js';
+import { QUIVER_ENDPOINTS, EndpointName, QuiverEndpoint } from './endpoints.js';
+
+/**
+ * Per-call context handed to tool handlers by the MCP server.
+ * It doubles as the request options for QuiverClient calls, carrying the
+ * cancellation signal and progress callback through to the upstream request.
+ */
+export interface ToolContext extends QuiverRequestOptions {}
+
+export type ToolCategory = 'congress' | 'lobbying' | 'contracts' | 'market' | 'reference';
+
+export const TOOL_CATEGORIES: ToolCategory[] = ['congress', 'lobbying', 'contracts', 'market', 'reference'];
 
 export interface MCPTool {
   name: string;
+  title: string; // Human-readable name shown by client UIs
   description: string;
+  category: ToolCategory;
+  tier: string; // Lowest Quiver subscription tier serving the tool's endpoint
+  annotations: ToolAnnotations;
   inputSchema: any;
-  handler: (client: QuiverClient, args: any) => Promise<any>;
+  outputSchema: any; // Schema of the structuredContent returned alongside the text rendering
+  handler: (client: QuiverClient, args: any, context: ToolContext) => Promise<any>;
+}
+
+/**
+ * Formats an upstream response, reporting the formatting stage first.
+ * Upstream errors are passed through so they surface as tool errors.
+ */
+function formatToolResponse(response: QuiverAPIResponse, options: ResponseOptions, context: ToolContext) {
+  if (response.error) {
+    return response;
+  }
+
+  context.onProgress?.({ stage: 'formatting' });
+  return {
+    ...formatResponse(response, options),
+    structuredContent: toStructuredContent(response, options),
+    attempts: response.attempts
+  };
 }
 
+// Every tool is a read-only QuiverAPI query: repeating it has no side effects,
+// and it reaches an external service whose data changes over time
+const queryAnnotations: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: true
+};
+
+// Accepted by every tool; applied to the upstream request rather than passed to the handler
+const cacheOptionSchema = {
+  cache: {
+    type: 'string',
+    enum: ['bypass', 'refresh'],
+    description: 'Response cache: bypass (fetch without reading or storing), refresh (fetch and replace the cached copy). Omit to use cached data when fresh'
+  }
+};
+
 // Common response options schema
 const responseOptionsSchema = {
   mode: {
@@ -36,594 +89,92 @@ const responseOptionsSchema = {
   limit: {
     type: 'number',
     description: 'Maximum number of items to return'
-  }
+  },
+  ...cacheOptionSchema
 };
 
-export const quiverTools: MCPTool[] = [
-  {
-    name: 'get_companies',
-    description: 'Get list of companies from QuiverAPI. Returns ticker, name, exchange, market_cap by default. Use search to filter companies and fields parameter to customize output.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        search: {
-          type: 'string',
-          description: 'Partial text search - use company name keywords or ticker symbols (e.g., "Apple" or "AAPL", not "Apple Inc. (NASDAQ:AAPL)")'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const response = await client.getCompanies(args?.search);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.companies
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_funds',
-    description: 'Get fund information from SEC 13F data. Returns fund_name, cik, total_value, filing_date by default. Use search to filter funds.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        search: {
-          type: 'string',
-          description: 'Partial text search - use fund name keywords or manager names (e.g., "Berkshire" not "Berkshire Hathaway Inc.")'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const response = await client.getFunds(args?.search);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.funds
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_congress_trading',
-    description: 'Get the most recent transactions by members of U.S. Congress. Returns ticker, representative, transaction_date, amount, transaction_type by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        normalized: {
-          type: 'boolean',
-          description: 'Whether to normalize the data'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const response = await client.getRecentCongressTrading(args?.normalized, args?.limit);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.congress_trading
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_congress_holdings',
-    description: 'Get live congress holdings data. Returns ticker, representative, value, shares by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const response = await client.getCongressHoldings();
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.congress_holdings
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_bill_summaries',
-    description: 'Get recent bill summaries. Use partial, distinctive keywords for best results (e.g., "Infrastructure" not "H.R.123"). Avoid exact titles or bill numbers.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Partial text search - use distinctive keywords from bill titles, NOT bill numbers or exact full titles'
-        },
-        summary_limit: {
-          type: 'number',
-          description: 'Summary length limit for bill summaries'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const apiParams = {
-        page: args?.page,
-        page_size: args?.page_size,
-        query: args?.query,
-        summary_limit: args?.summary_limit
-      };
-      const response = await client.getRecentBillSummaries(apiParams);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        limit: args?.limit
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_historical_congress_trading',
-    description: 'Get all stock transactions by members of U.S. Congress for a specific ticker. Returns essential trading fields by default. Use summary mode for large datasets.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        },
-        normalized: {
-          type: 'boolean',
-          description: 'Whether to normalize the data'
-        },
-        ...responseOptionsSchema
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      const response = await client.getHistoricalCongressTrading(args.ticker, args?.normalized);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.congress_trading
-      };
-      return formatResponse(response, options);
-    }
+// Sent upstream by endpoints that page there; raw tools describe them on their own
+const upstreamPageSchema = {
+  page: {
+    type: 'number',
+    description: 'Page number'
   },
-  {
-    name: 'get_ticker_data',
-    description: 'Get comprehensive ticker data for mobile application. Large dataset - use summary mode for overview, sections parameter for modular data, or specify fields for focused data. Available sections: basic, trading, congress, sentiment, contracts, all.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        },
-        days: {
-          type: 'number',
-          description: 'Number of days of data to retrieve'
-        },
-        sections: {
-          type: 'array',
-          items: { 
-            type: 'string',
-            enum: ['basic', 'trading', 'congress', 'sentiment', 'contracts', 'all']
-          },
-          description: 'Data sections to include: basic (company info), trading (OHLC), congress (congressional trading), sentiment (social data), contracts (gov contracts/lobbying), all (everything)'
-        },
-        ...responseOptionsSchema
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      const response = await client.getTickerData(args.ticker, args?.days);
-      
-      // Apply section filtering if specified
-      if (response.data && args?.sections && !args.sections.includes('all')) {
-        response.data = selectTickerDataSections(response.data, args.sections);
+  page_size: {
+    type: 'number',
+    description: 'Items per page'
+  }
+};
+
+/**
+ * The inputSchema of an endpoint's tool: path parameters, query parameters
+ * and the tool's own, then the response options. Raw tools only add upstream
+ * paging and the cache option.
+ */
+function endpointInputSchema(endpoint: QuiverEndpoint) {
+  const params = Object.entries(endpoint.params);
+  const describe = ([name, param]: [string, APIParameter]) => [name, { type: param.type, description: param.description, ...(param.enum && { enum: param.enum }) }];
+  const { raw } = endpoint.tool;
+
+  const properties = {
+    ...Object.fromEntries(params.filter(([, param]) => param.in === 'path').map(describe)),
+    ...(raw && endpoint.pagination !== 'none' && upstreamPageSchema),
+    ...Object.fromEntries(params.filter(([, param]) => param.in === 'query').map(describe)),
+    ...endpoint.tool.params,
+    ...(endpoint.pagination === 'pages' && {
+      pages: {
+        type: 'number',
+        description: 'Number of consecutive upstream pages to fetch, starting at page (default 1). Progress is reported per page.'
       }
-      
-      const options: ResponseOptions = {
-        mode: args?.mode || 'summary',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_house_trading',
-    description: 'Get the most recent transactions by U.S. Representatives. Returns essential trading fields by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        normalized: {
-          type: 'boolean',
-          description: 'Whether to normalize the data'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const apiParams = {
-        normalized: args?.normalized
-      };
-      const response = await client.makeRequest('/beta/live/housetrading', 'GET', apiParams);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.congress_trading
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_senate_trading',
-    description: 'Get the most recent transactions by U.S. Senators. Returns essential trading fields by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        normalized: {
-          type: 'boolean',
-          description: 'Whether to normalize the data'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const apiParams = {
-        normalized: args?.normalized
-      };
-      const response = await client.makeRequest('/beta/live/senatetrading', 'GET', apiParams);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.congress_trading
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_gov_contracts',
-    description: 'Get last quarter government contract amounts for all companies. Returns essential contract information by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const response = await client.makeRequest('/beta/live/govcontracts');
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        page: args?.page,
-        page_size: args?.page_size,
-        limit: args?.limit || DEFAULT_LIMITS.gov_contracts
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_gov_contracts_all',
-    description: 'Get recently announced contracts across all companies',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        page: {
-          type: 'number',
-          description: 'Page number'
-        },
-        page_size: {
-          type: 'number',
-          description: 'Items per page'
-        },
-        query: {
-          type: 'string',
-          description: 'Query to filter contracts'
-        }
-      },
-      required: []
-    },
-    handler: async (client, args) => client.makeRequest('/beta/live/govcontractsall', 'GET', args)
-  },
-  {
-    name: 'get_recent_lobbying',
-    description: 'Get the most recent lobbying spending instances. Use partial keywords for best results (e.g., "healthcare" not full organization names). Returns client_name, registrant_name, amount, date by default.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Partial text search - use keywords from issues, client names, or topics. Avoid overly specific or formal names'
-        },
-        client_name: {
-          type: 'string',
-          description: 'Client name filter'
-        },
-        registrant_name: {
-          type: 'string',
-          description: 'Registrant name filter'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const apiParams = {
-        page: args?.page,
-        page_size: args?.page_size,
-        query: args?.query,
-        client_name: args?.client_name,
-        registrant_name: args?.registrant_name
-      };
-      const response = await client.makeRequest('/beta/live/lobbying', 'GET', apiParams);
-      const options: ResponseOptions = {
-        mode: args?.mode || 'detailed',
-        format: args?.format || 'json',
-        fields: args?.fields,
-        explicitFields: !!args?.fields,
-        limit: args?.limit || DEFAULT_LIMITS.lobbying
-      };
-      return formatResponse(response, options);
-    }
-  },
-  {
-    name: 'get_recent_legislation',
-    description: 'Get recent legislation data',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      required: []
-    },
-    handler: async (client) => client.makeRequest('/beta/live/legislation')
-  },
-  {
-    name: 'get_live_off_exchange',
-    description: 'Get yesterdays off-exchange activity across all companies',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        page: {
-          type: 'number',
-          description: 'Page number'
-        },
-        page_size: {
-          type: 'number',
-          description: 'Items per page'
-        }
-      },
-      required: []
-    },
-    handler: async (client, args) => client.makeRequest('/beta/live/offexchange', 'GET', args)
-  },
-  {
-    name: 'get_historical_gov_contracts',
-    description: 'Get historical quarterly government contracts amounts for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/govcontracts/${args.ticker}`);
-    }
-  },
-  {
-    name: 'get_historical_gov_contracts_all',
-    description: 'Get historical government contracts for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/govcontractsall/${args.ticker}`);
-    }
-  },
-  {
-    name: 'get_historical_house_trading',
-    description: 'Get all stock transactions by U.S. Representatives for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/housetrading/${args.ticker}`);
-    }
-  },
-  {
-    name: 'get_historical_senate_trading',
-    description: 'Get all stock transactions by U.S. Senators for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/senatetrading/${args.ticker}`);
-    }
-  },
-  {
-    name: 'get_historical_lobbying',
-    description: 'Get all lobbying spending instances for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        },
-        page: {
-          type: 'number',
-          description: 'Page number'
-        },
-        page_size: {
-          type: 'number',
-          description: 'Items per page'
-        },
-        query: {
-          type: 'string',
-          description: 'Query to filter lobbying data'
-        },
-        client_name: {
-          type: 'string',
-          description: 'Client name filter'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/lobbying/${args.ticker}`, 'GET', args);
-    }
-  },
-  {
-    name: 'get_historical_off_exchange',
-    description: 'Get daily historical off-exchange activity for a ticker',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Stock ticker symbol'
-        }
-      },
-      required: ['ticker']
-    },
-    handler: async (client, args) => {
-      if (!args?.ticker) throw new Error('ticker parameter is required');
-      return client.makeRequest(`/beta/historical/offexchange/${args.ticker}`);
-    }
-  },
-  {
-    name: 'get_bulk_congress_trading',
-    description: 'Get the full history of transactions by members of U.S. Congress. LARGE DATASET - strongly recommend using summary mode and filters to reduce response size.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticker: {
-          type: 'string',
-          description: 'Filter by ticker symbol'
-        },
-        representative: {
-          type: 'string',
-          description: 'Filter by representative name'
-        },
-        transaction_date_gte: {
-          type: 'string',
-          description: 'Filter by transaction date (greater than or equal)'
-        },
-        transaction_date_lte: {
-          type: 'string',
-          description: 'Filter by transaction date (less than or equal)'
-        },
-        amount_gte: {
-          type: 'number',
-          description: 'Filter by amount (greater than or equal)'
-        },
-        amount_lte: {
-          type: 'number',
-          description: 'Filter by amount (less than or equal)'
-        },
-        transaction_type: {
-          type: 'string',
-          description: 'Filter by transaction type'
-        },
-        ...responseOptionsSchema
-      },
-      required: []
-    },
-    handler: async (client, args) => {
-      const apiParams = {
-        page: args?.page,
-        page_size: args?.page_size,
-        ticker: args?.ticker,
-        representative: args?.representative,
-        transaction_date_gte: args?.transaction_date_gte,
-        transaction_date_lte: args?.transaction_date_lte,
-        amount_gte: args?.amount_gte,
-        amount_lte: args?.amount_lte,
-        transaction_type: args?.transaction_type
-      };
-      const response = await client.makeRequest('/beta/bulk/congresstrading', 'GET', apiParams);
+    }),
+    ...(raw ? cacheOptionSchema : responseOptionsSchema),
+    // Suggest the endpoint's usual fields without selecting them
+    ...(!raw && endpoint.defaultFields && { fields: { ...responseOptionsSchema.fields, examples: [endpoint.defaultFields] } })
+  };
+
+  return {
+    type: 'object',
+    properties,
+    required: params.filter(([, param]) => param.in === 'path' || param.required).map(([name]) => name)
+  };
+}
+
+/**
+ * Builds the tool for a registry endpoint. Raw tools return the upstream
+ * response as is; the others format it with the caller's response options.
+ */
+function endpointTool(name: EndpointName): MCPTool {
+  const endpoint: QuiverEndpoint = QUIVER_ENDPOINTS[name];
+  const { tool } = endpoint;
+
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    category: tool.category,
+    tier: endpoint.tier,
+    annotations: queryAnnotations,
+    inputSchema: endpointInputSchema(endpoint),
+    outputSchema: tool.outputSchema,
+    handler: async (client, args, context) => {
+      const response = await client.callEndpoint(name, args, context);
+      if (tool.raw) {
+        return response;
+      }
+
+      // Responses can be shared with other callers, so transforms work on a copy
+      const transformed = tool.transform && response.data ? { ...response, data: tool.transform(response.data, args || {}) } : response;
       const options: ResponseOptions = {
-        mode: args?.mode || 'summary',
+        mode: args?.mode || tool.defaultMode || 'detailed',
         format: args?.format || 'json',
         fields: args?.fields,
         explicitFields: !!args?.fields,
-        limit: args?.limit || DEFAULT_LIMITS.bulk_data
+        // Endpoints paging upstream have already applied page and page_size
+        ...(endpoint.pagination === 'none' && { page: args?.page, page_size: args?.page_size }),
+        limit: args?.limit || endpoint.defaultLimit
       };
-      return formatResponse(response, options);
+      return formatToolResponse(transformed, options, context);
     }
-  }
-];
\ No newline at end of file
+  };
+}
+
+export const quiverTools: MCPTool[] = (Object.keys(QUIVER_ENDPOINTS) as EndpointName[]).map(endpointTool);
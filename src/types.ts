@@ -1,34 +1,68 @@
+import { Logger } from './logging.js';
+import { CacheMode, ResponseCache } from './response-cache.js';
+import { FailureKind, RetryConfig } from './retry.js';
+import { RequestPriority, UpstreamLimiter } from './upstream-limiter.js';
+
 export interface QuiverConfig {
   baseUrl: string;
   apiToken: string;
+  timeoutMs?: number; // Upstream request timeout (default: 30000)
+  cache?: ResponseCache; // Shared by the clients of a process; responses are not cached without one
+  retry?: RetryConfig; // GETs are attempted once without one
+  limiter?: UpstreamLimiter; // Shared by the clients of a process; requests are sent at once without one
 }
 
+/**
+ * A QuiverAPI endpoint as described in the endpoint registry. Client methods,
+ * tool input schemas and handlers are generated from these descriptions.
+ */
 export interface APIEndpoint {
-  path: string;
-  method: string;
-  operationId: string;
-  description: string;
-  summary: string;
-  parameters: APIParameter[];
-  responses: any;
-  tags: string[];
-  security: any[];
+  path: string; // Template; {name} segments are filled from path parameters
+  params: Record<string, APIParameter>;
+  pagination: PaginationStyle;
+  tier: string; // Lowest Quiver subscription tier serving the endpoint
+  defaultFields?: string[]; // Suggested field selection for the rows
+  defaultLimit?: number; // Rows shown by tools and resources when the caller sets no limit
 }
 
 export interface APIParameter {
-  name: string;
-  in: 'query' | 'path' | 'header' | 'body';
-  required?: boolean;
-  schema: {
-    type: string;
-    format?: string;
-    enum?: string[];
-  };
-  description?: string;
+  in: 'path' | 'query';
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  required?: boolean; // Path parameters always are
+  enum?: string[];
+}
+
+/**
+ * How an endpoint pages its rows:
+ * - none: returns everything at once; tools page the rows locally
+ * - page: takes `page` and `page_size` query parameters
+ * - pages: as page, and tools can walk several consecutive pages (`pages`)
+ */
+export type PaginationStyle = 'none' | 'page' | 'pages';
+
+/**
+ * Stages reported while a tool call fetches and formats upstream data
+ */
+export type QuiverProgressEvent =
+  | { stage: 'page'; page: number; pages: number }
+  | { stage: 'request_sent'; path: string }
+  | { stage: 'bytes_received'; loaded: number; total?: number }
+  | { stage: 'rows_parsed'; rows: number }
+  | { stage: 'formatting' };
+
+export interface QuiverRequestOptions {
+  signal?: AbortSignal; // Aborts the upstream request, e.g. when the MCP call is cancelled
+  onProgress?: (event: QuiverProgressEvent) => void;
+  logger?: Logger; // Receives diagnostics for this request instead of the client's default logger
+  cache?: CacheMode;
+  priority?: RequestPriority; // Place in the upstream queue (default: bulk for /beta/bulk/*, else interactive)
 }
 
 export interface QuiverAPIResponse {
   data?: any;
   error?: string;
   status: number;
+  failure?: FailureKind; // Set on errors: an HTTP error status, a timeout (504) or a connection failure (502)
+  attempts?: number; // Upstream requests made, including retries; absent for cached responses
 }
\ No newline at end of file
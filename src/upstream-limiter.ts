@@ -0,0 +1,300 @@
+import { createHash } from 'crypto';
+import { TokenBucket } from './rate-limit.js';
+import { EndpointFamily, endpointFamily } from './response-cache.js';
+
+// Queued requests are served in this order; within a priority, first come first served
+export type RequestPriority = 'interactive' | 'bulk' | 'background';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { interactive: 0, bulk: 1, background: 2 };
+
+/**
+ * The more urgent of two priorities.
+ */
+export function higherPriority(a: RequestPriority, b: RequestPriority): RequestPriority {
+  return PRIORITY_ORDER[a] <= PRIORITY_ORDER[b] ? a : b;
+}
+
+export interface UpstreamLimit {
+  requestsPerMinute: number; // 0 disables
+  maxConcurrent: number; // 0 disables
+}
+
+export interface TierLimits extends UpstreamLimit {
+  families: Partial<Record<EndpointFamily, UpstreamLimit>>; // Budgets within the tier's, per endpoint family
+}
+
+export interface UpstreamLimitsConfig {
+  enabled: boolean;
+  tier: string;
+  tiers: Record<string, Partial<UpstreamLimit> & { families?: Partial<Record<EndpointFamily, Partial<UpstreamLimit>>> }>; // Overrides and additions to TIER_LIMITS
+}
+
+// Starting points per Quiver subscription; adjust under upstream.limits.tiers to match your plan
+export const TIER_LIMITS: Record<string, TierLimits> = {
+  hobbyist: { requestsPerMinute: 30, maxConcurrent: 2, families: { bulk: { requestsPerMinute: 2, maxConcurrent: 1 } } },
+  tier1: { requestsPerMinute: 120, maxConcurrent: 4, families: { bulk: { requestsPerMinute: 10, maxConcurrent: 1 } } },
+  tier2: { requestsPerMinute: 300, maxConcurrent: 8, families: { bulk: { requestsPerMinute: 30, maxConcurrent: 2 } } }
+};
+
+export function tierNames(tiers: UpstreamLimitsConfig['tiers'] = {}): string[] {
+  return [...new Set([...Object.keys(TIER_LIMITS), ...Object.keys(tiers)])];
+}
+
+/**
+ * Limits for the configured tier: the preset (if any) with configured values on top.
+ */
+export function resolveTierLimits(config: UpstreamLimitsConfig): TierLimits {
+  const preset = TIER_LIMITS[config.tier] || { requestsPerMinute: 0, maxConcurrent: 0, families: {} };
+  const { families = {}, ...overrides } = config.tiers[config.tier] || {};
+
+  const merged: TierLimits = { ...preset, ...overrides, families: { ...preset.families } };
+  for (const [family, limit] of Object.entries(families) as [EndpointFamily, Partial<UpstreamLimit>][]) {
+    merged.families[family] = { requestsPerMinute: 0, maxConcurrent: 0, ...preset.families[family], ...limit };
+  }
+  return merged;
+}
+
+/**
+ * Thrown to a queued request whose caller aborted before it got a slot.
+ */
+export class QueueAbortedError extends Error {
+  constructor() {
+    super('Request cancelled while queued');
+    this.name = 'QueueAbortedError';
+  }
+}
+
+interface Budget {
+  active: number;
+  bucket?: TokenBucket;
+}
+
+interface Waiter {
+  family: EndpointFamily;
+  priority: RequestPriority;
+  signal?: AbortSignal; // Identifies the request to raisePriority
+  sequence: number;
+  enqueuedAt: number;
+  waited: boolean; // Not granted on arrival
+  grant: () => void;
+  abort: () => void;
+}
+
+// One subscription's budgets and queue
+interface TokenState {
+  total: Budget;
+  families: Map<EndpointFamily, Budget>;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+}
+
+export interface UpstreamLimiterMetrics {
+  active: number;
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  maxQueueDepth: number;
+  served: number;
+  delayed: number; // Requests that had to wait in the queue
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+function budget(limit: UpstreamLimit): Budget {
+  return { active: 0, bucket: limit.requestsPerMinute > 0 ? new TokenBucket(limit.requestsPerMinute) : undefined };
+}
+
+/**
+ * Keeps upstream traffic within a Quiver subscription's limits: a token
+ * bucket and a concurrency cap for all requests of a token, plus tighter
+ * ones per endpoint family. Requests over budget wait in a queue served by
+ * priority, so interactive tool calls overtake bulk downloads and
+ * background refreshes. Shared by every QuiverClient of a process.
+ */
+export class UpstreamLimiter {
+  private limits: TierLimits;
+  private tokens = new Map<string, TokenState>();
+  private sequence = 0;
+  private stats = { maxQueueDepth: 0, served: 0, delayed: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(private config: UpstreamLimitsConfig) {
+    this.limits = resolveTierLimits(config);
+  }
+
+  private stateFor(apiToken: string): TokenState {
+    const key = createHash('sha256').update(apiToken).digest('hex');
+    let state = this.tokens.get(key);
+    if (!state) {
+      state = { total: budget(this.limits), families: new Map(), queue: [] };
+      this.tokens.set(key, state);
+    }
+    return state;
+  }
+
+  private familyBudget(state: TokenState, family: EndpointFamily): Budget | undefined {
+    const limit = this.limits.families[family];
+    if (!limit) {
+      return undefined;
+    }
+    let familyBudget = state.families.get(family);
+    if (!familyBudget) {
+      familyBudget = budget(limit);
+      state.families.set(family, familyBudget);
+    }
+    return familyBudget;
+  }
+
+  /**
+   * Waits for capacity to send a request to `path` and returns the function
+   * to call once the response has arrived. Rejects with QueueAbortedError if
+   * `signal` aborts first.
+   */
+  acquire(apiToken: string, path: string, priority: RequestPriority, signal?: AbortSignal): Promise<() => void> {
+    if (!this.config.enabled) {
+      return Promise.resolve(() => {});
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new QueueAbortedError());
+    }
+
+    const state = this.stateFor(apiToken);
+    const family = endpointFamily(path);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => waiter.abort();
+      const waiter: Waiter = {
+        family,
+        priority,
+        signal,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        waited: false,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.occupy(state, family));
+        },
+        abort: () => {
+          state.queue.splice(state.queue.indexOf(waiter), 1);
+          reject(new QueueAbortedError());
+          this.dispatch(state);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Sorted by priority, then arrival
+      const index = state.queue.findIndex(other =>
+        PRIORITY_ORDER[other.priority] > PRIORITY_ORDER[priority]
+      );
+      state.queue.splice(index === -1 ? state.queue.length : index, 0, waiter);
+      this.dispatch(state);
+      waiter.waited = true;
+      this.stats.maxQueueDepth = Math.max(this.stats.maxQueueDepth, this.queued());
+    });
+  }
+
+  /**
+   * Moves requests queued with `signal` up to `priority`, behind those that
+   * arrived earlier at that priority. Never lowers a priority.
+   */
+  raisePriority(signal: AbortSignal, priority: RequestPriority): void {
+    for (const state of this.tokens.values()) {
+      const raised = state.queue.filter(waiter => waiter.signal === signal && PRIORITY_ORDER[priority] < PRIORITY_ORDER[waiter.priority]);
+      if (raised.length === 0) continue;
+
+      raised.forEach(waiter => waiter.priority = priority);
+      state.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence);
+      this.dispatch(state);
+    }
+  }
+
+  private occupy(state: TokenState, family: EndpointFamily): () => void {
+    const familyBudget = this.familyBudget(state, family);
+    state.total.active++;
+    if (familyBudget) familyBudget.active++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.total.active--;
+      if (familyBudget) familyBudget.active--;
+      this.dispatch(state);
+    };
+  }
+
+  // Milliseconds until `target` has room for one more request; Infinity while it is at its concurrency cap
+  private timeUntilFree(target: Budget, limit: UpstreamLimit): number {
+    if (limit.maxConcurrent > 0 && target.active >= limit.maxConcurrent) {
+      return Infinity;
+    }
+    return target.bucket?.timeUntil(1) ?? 0;
+  }
+
+  /**
+   * Grants queued requests in priority order. A request blocked by the
+   * token-wide budget holds back everything behind it; one blocked only by
+   * its family's budget lets requests for other families through.
+   */
+  private dispatch(state: TokenState) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    let nextCheck = Infinity;
+
+    for (const waiter of [...state.queue]) {
+      const totalWait = this.timeUntilFree(state.total, this.limits);
+      if (totalWait > 0) {
+        nextCheck = Math.min(nextCheck, totalWait);
+        break;
+      }
+
+      const familyLimit = this.limits.families[waiter.family];
+      const familyBudget = this.familyBudget(state, waiter.family);
+      const familyWait = familyLimit && familyBudget ? this.timeUntilFree(familyBudget, familyLimit) : 0;
+      if (familyWait > 0) {
+        nextCheck = Math.min(nextCheck, familyWait);
+        continue;
+      }
+
+      state.total.bucket?.take(1);
+      familyBudget?.bucket?.take(1);
+      state.queue.splice(state.queue.indexOf(waiter), 1);
+      this.record(waiter);
+      waiter.grant();
+    }
+
+    // Concurrency slots are re-checked on release; only refills need a timer
+    if (state.queue.length > 0 && Number.isFinite(nextCheck)) {
+      state.timer = setTimeout(() => this.dispatch(state), nextCheck);
+    }
+  }
+
+  private record(waiter: Waiter) {
+    this.stats.served++;
+    if (waiter.waited) {
+      const waitMs = Date.now() - waiter.enqueuedAt;
+      this.stats.delayed++;
+      this.stats.totalWaitMs += waitMs;
+      this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+    }
+  }
+
+  private queued(): number {
+    return [...this.tokens.values()].reduce((sum, state) => sum + state.queue.length, 0);
+  }
+
+  metrics(): UpstreamLimiterMetrics {
+    const states = [...this.tokens.values()];
+    const queuedByPriority: Record<RequestPriority, number> = { interactive: 0, bulk: 0, background: 0 };
+    states.forEach(state => state.queue.forEach(waiter => queuedByPriority[waiter.priority]++));
+
+    return {
+      active: states.reduce((sum, state) => sum + state.total.active, 0),
+      queued: this.queued(),
+      queuedByPriority,
+      maxQueueDepth: this.stats.maxQueueDepth,
+      served: this.stats.served,
+      delayed: this.stats.delayed,
+      averageWaitMs: this.stats.delayed ? Math.round(this.stats.totalWaitMs / this.stats.delayed) : 0,
+      maxWaitMs: this.stats.maxWaitMs
+    };
+  }
+}
@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer } from '../src/server.js';
+import { MessageShimTransport, ShimReply } from '../src/message-transport.js';
+import { initConfig } from '../src/config.js';
+
+interface CancellationCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+// Code /message answers cancelled requests with
+const REQUEST_CANCELLED = -32800;
+
+class CancellationSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private requests = 0;
+  private aborted = 0; // Upstream requests whose connection closed before the response
+  private results: CancellationCheck[] = [];
+
+  constructor() {
+    console.log('🛑 Cancellation Suite (notifications/cancelled, $/cancelRequest, per-caller /message cancels)\n');
+    initConfig({ env: {} });
+  }
+
+  // Every endpoint answers after 300ms, leaving time to cancel
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get(/^\/beta\//, (req, res) => {
+      this.requests++;
+      let closed = false;
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          closed = true;
+          this.aborted++;
+        }
+      });
+      setTimeout(() => {
+        if (!closed) res.json([{ Ticker: 'AAPL', Representative: 'Jane Doe' }]);
+      }, 300);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private client(): QuiverClient {
+    return new QuiverClient({ baseUrl: this.baseUrl, apiToken: 'cancellation-token' });
+  }
+
+  // A /message exchange posted by `caller`, as the HTTP server sets one up
+  private async exchange(caller: string, payload: unknown): Promise<ShimReply | ShimReply[] | undefined> {
+    const server = createQuiverServer(this.client());
+    const transport = new MessageShimTransport(caller);
+    await server.connect(transport);
+    try {
+      return await transport.receive(payload);
+    } finally {
+      await server.close();
+    }
+  }
+
+  private toolCall(id: number, ticker: string) {
+    return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'get_historical_lobbying', arguments: { ticker } } };
+  }
+
+  private cancelNotification(requestId: number) {
+    return { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'test' } };
+  }
+
+  // Lets the upstream notice closed connections
+  private settle(ms: number = 50): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+
+    this.check('client_cancel_aborts_upstream', await this.checkClientCancel());
+    this.check('message_cancel_aborts_upstream', await this.checkMessageCancel());
+    this.check('legacy_cancel_request', await this.checkLegacyCancel());
+    this.check('cancel_from_other_caller_ignored', await this.checkCrossTenantCancel());
+    this.check('same_id_requests_both_cancelled', await this.checkSameIdRequests());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} cancellation checks passed`);
+    return passed === this.results.length;
+  }
+
+  // Aborting the SDK client's request sends notifications/cancelled to the server
+  private async checkClientCancel(): Promise<string | undefined> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(this.client()).connect(serverTransport);
+    const mcp = new Client({ name: 'cancellation-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+
+    const requestsBefore = this.requests;
+    const abortedBefore = this.aborted;
+    const controller = new AbortController();
+    const call = mcp.callTool({ name: 'get_historical_lobbying', arguments: { ticker: 'AAPL' } }, undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort('test'), 50);
+
+    let rejected = false;
+    try {
+      await call;
+    } catch {
+      rejected = true;
+    }
+    await this.settle();
+    await mcp.close();
+
+    return rejected && this.requests === requestsBefore + 1 && this.aborted === abortedBefore + 1
+      ? undefined : `rejected ${rejected}, ${this.requests - requestsBefore} upstream requests, ${this.aborted - abortedBefore} aborted`;
+  }
+
+  // A cancellation posted in a later exchange answers the running call with -32800
+  private async checkMessageCancel(): Promise<string | undefined> {
+    const abortedBefore = this.aborted;
+    const call = this.exchange('tenant-a', this.toolCall(1, 'MSFT'));
+    await this.settle();
+    const ack = await this.exchange('tenant-a', this.cancelNotification(1));
+    const reply = await call as any;
+    await this.settle();
+
+    return ack === undefined && reply?.error?.code === REQUEST_CANCELLED && this.aborted === abortedBefore + 1
+      ? undefined : `ack ${JSON.stringify(ack)}, reply ${JSON.stringify(reply)}, ${this.aborted - abortedBefore} aborted`;
+  }
+
+  private async checkLegacyCancel(): Promise<string | undefined> {
+    const call = this.exchange('tenant-a', this.toolCall(2, 'NVDA'));
+    await this.settle();
+    const ack = await this.exchange('tenant-a', { jsonrpc: '2.0', id: 3, method: '$/cancelRequest', params: { id: 2 } }) as any;
+    const reply = await call as any;
+    await this.settle();
+
+    return ack?.id === 3 && JSON.stringify(ack.result) === '{}' && reply?.error?.code === REQUEST_CANCELLED
+      ? undefined : `ack ${JSON.stringify(ack)}, reply ${JSON.stringify(reply)}`;
+  }
+
+  // Another tenant using the same request id must not reach tenant A's call
+  private async checkCrossTenantCancel(): Promise<string | undefined> {
+    const abortedBefore = this.aborted;
+    const call = this.exchange('tenant-a', this.toolCall(4, 'LMT'));
+    await this.settle();
+    await this.exchange('tenant-b', this.cancelNotification(4));
+    await this.exchange('tenant-b', { jsonrpc: '2.0', id: 5, method: '$/cancelRequest', params: { id: 4 } });
+    const reply = await call as any;
+
+    return reply?.result && !reply.result.isError && this.aborted === abortedBefore
+      ? undefined : `reply ${JSON.stringify(reply)?.slice(0, 200)}, ${this.aborted - abortedBefore} aborted`;
+  }
+
+  // Concurrent exchanges reusing an id no longer overwrite each other's entry
+  private async checkSameIdRequests(): Promise<string | undefined> {
+    const calls = [this.exchange('tenant-a', this.toolCall(6, 'BA')), this.exchange('tenant-a', this.toolCall(6, 'RTX'))];
+    await this.settle();
+    await this.exchange('tenant-a', this.cancelNotification(6));
+    const replies = await Promise.all(calls) as any[];
+
+    return replies.every(reply => reply?.error?.code === REQUEST_CANCELLED)
+      ? undefined : replies.map(reply => JSON.stringify(reply)?.slice(0, 100)).join(' | ');
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new CancellationSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Cancellation suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
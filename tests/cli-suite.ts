@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { runCli } from '../src/cli.js';
+import { quiverTools } from '../src/tools.js';
+
+interface CliCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+const API_TOKEN = 'cli-token';
+
+class CliSuite {
+  private upstream?: HttpServer;
+  private workDir = mkdtempSync(join(tmpdir(), 'quiver-cli-'));
+  private searches: string[] = [];
+  private results: CliCheck[] = [];
+
+  constructor() {
+    console.log('⌨️  CLI Suite (flag mapping, output files, prompts and resources)\n');
+  }
+
+  private async startUpstream(): Promise<string> {
+    const app = express();
+    app.get('/beta/companies', (req, res) => {
+      this.searches.push(String(req.query.search));
+      res.json([{ ticker: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', market_cap: 3000000000000 }]);
+    });
+    app.get('/beta/bulk/congresstrading', (_req, res) => {
+      res.json([{ Ticker: 'AAPL', Representative: 'Jane Doe', Transaction: 'Purchase', Range: '$1,001 - $15,000' }]);
+    });
+    app.get(/^\/beta\//, (req, res) => {
+      res.status(404).json({ message: `No fixture for ${req.path}` });
+    });
+
+    return new Promise(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        const { port } = this.upstream!.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      });
+    });
+  }
+
+  private async cli(...argv: string[]): Promise<{ code: number; output: string }> {
+    let output = '';
+    const code = await runCli(argv, text => {
+      output += text;
+    });
+    return { code, output };
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    // The CLI reads its settings like the servers do; no file, only these variables
+    process.env.QUIVER_BASE_URL = await this.startUpstream();
+    process.env.QUIVER_API_TOKEN = API_TOKEN;
+    process.env.QUIVER_MCP_CONFIG = '';
+
+    const tools = await this.cli('tools');
+    this.check('lists_tools', tools.code === 0 && tools.output.trim().split('\n').length === quiverTools.length ? undefined : `exit ${tools.code}: ${tools.output}`);
+
+    const csvFile = join(this.workDir, 'companies.csv');
+    const call = await this.cli('call', 'get_companies', '--search', 'Apple', '--format', 'csv', '--output', csvFile);
+    const csv = call.code === 0 ? readFileSync(csvFile, 'utf8') : '';
+    this.check('call_writes_output_file', csv.startsWith('ticker,name') && csv.includes('AAPL') && this.searches.includes('Apple')
+      ? undefined : `exit ${call.code}, file ${JSON.stringify(csv)}, searches ${this.searches}`);
+
+    const dashed = await this.cli('call', 'get_companies', '--page-size', '1', '--fields', 'ticker', '--fields', 'name', '--json');
+    const parsed = dashed.code === 0 ? JSON.parse(dashed.output) : undefined;
+    this.check('dashed_and_repeated_flags', parsed?.structuredContent?.items?.[0]?.ticker === 'AAPL' && !('exchange' in parsed.structuredContent.items[0])
+      ? undefined : `exit ${dashed.code}: ${dashed.output}`);
+
+    const missing = await this.cli('call', 'get_ticker_data');
+    this.check('missing_required_flag', missing.code === 2 ? undefined : `exit ${missing.code}`);
+
+    const badEnum = await this.cli('call', 'get_companies', '--format', 'xml');
+    const unknownFlag = await this.cli('call', 'get_companies', '--serch', 'Apple');
+    this.check('invalid_flags_rejected', badEnum.code === 2 && unknownFlag.code === 2 ? undefined : `exit ${badEnum.code} and ${unknownFlag.code}`);
+
+    const upstreamError = await this.cli('call', 'get_historical_lobbying', '--ticker', 'ZZZZ');
+    this.check('upstream_error_exit_code', upstreamError.code === 1 ? undefined : `exit ${upstreamError.code}: ${upstreamError.output}`);
+
+    const prompt = await this.cli('prompt', 'company-deep-dive', '--ticker', 'NVDA');
+    this.check('renders_prompt', prompt.code === 0 && prompt.output.includes('NVDA') ? undefined : `exit ${prompt.code}: ${prompt.output}`);
+
+    const resource = await this.cli('read', 'quiver://representative/Jane%20Doe/trades');
+    this.check('reads_data_resource', resource.code === 0 && resource.output.includes('Jane Doe') ? undefined : `exit ${resource.code}: ${resource.output}`);
+
+    this.check('disabled_tools_hidden', await this.checkDisabledTools());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} CLI checks passed`);
+    return passed === this.results.length;
+  }
+
+  // tools.disabled applies to the CLI as it does to tools/list and tools/call
+  private async checkDisabledTools(): Promise<string | undefined> {
+    const config = join(this.workDir, 'disabled.yaml');
+    writeFileSync(config, 'tools:\n  disabled: [get_companies]\n');
+    const searchesBefore = this.searches.length;
+
+    const tools = await this.cli('tools', '--config', config);
+    const listed = tools.output.trim().split('\n').map(line => line.split(' ')[0]);
+    const call = await this.cli('call', 'get_companies', '--search', 'Apple', '--config', config);
+
+    return tools.code === 0 && listed.length === quiverTools.length - 1 && !listed.includes('get_companies') &&
+      call.code === 2 && this.searches.length === searchesBefore
+      ? undefined : `listed ${listed.length} tools (get_companies ${listed.includes('get_companies') ? 'included' : 'hidden'}), call exit ${call.code}`;
+  }
+
+  public async cleanup(): Promise<void> {
+    rmSync(this.workDir, { recursive: true, force: true });
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new CliSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ CLI suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface CompletionCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+interface CompletionCase {
+  name: string;
+  ref: { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string };
+  argument: string;
+  value: string;
+  expected: string[];
+}
+
+const SECTORS = ['Technology', 'Industrials', 'Health Care'];
+
+// 150 companies, more than one completion response holds
+const COMPANIES = [
+  { ticker: 'AAPL', name: 'Apple Inc.', sector: 'Technology' },
+  { ticker: 'LMT', name: 'Lockheed Martin Corp.', sector: 'Industrials' },
+  { ticker: 'MSFT', name: 'Microsoft Corporation', sector: 'Technology' },
+  ...Array.from({ length: 147 }, (_, index) => ({ ticker: `Z${String(index).padStart(3, '0')}`, name: `Filler ${index}`, sector: SECTORS[index % 3] }))
+];
+
+const TRADES = [
+  { ticker: 'NVDA', representative: 'Jane Doe' },
+  { ticker: 'AAPL', representative: 'John Roe' },
+  { ticker: 'MSFT', representative: 'Janet Smith' }
+];
+
+class CompletionsSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private requests: string[] = [];
+  private failing = false; // Answer every upstream request with a 500
+  private results: CompletionCheck[] = [];
+
+  constructor() {
+    console.log('🔤 Completions Suite (completion/complete for prompt arguments and resource template variables)\n');
+    initConfig({ env: {} });
+  }
+
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get('/beta/companies', (req, res) => {
+      this.requests.push(req.path);
+      this.failing ? res.status(500).json({ message: 'Upstream down' }) : res.json(COMPANIES);
+    });
+    app.get('/beta/live/congresstrading', (req, res) => {
+      this.requests.push(req.path);
+      this.failing ? res.status(500).json({ message: 'Upstream down' }) : res.json(TRADES);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private async connect(apiToken: string = 'completions-token'): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(new QuiverClient({ baseUrl: this.baseUrl, apiToken })).connect(serverTransport);
+    const mcp = new Client({ name: 'completions-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+    return mcp;
+  }
+
+  // One case per argument that has a vocabulary
+  private getCases(): CompletionCase[] {
+    const prompt = (name: string) => ({ type: 'ref/prompt' as const, name });
+    const resource = (uri: string) => ({ type: 'ref/resource' as const, uri });
+
+    return [
+      { name: 'ticker_prompt', ref: prompt('company-deep-dive'), argument: 'ticker', value: 'a', expected: ['AAPL'] },
+      { name: 'ticker_template', ref: resource('quiver://ticker/{ticker}/lobbying'), argument: 'ticker', value: 'ms', expected: ['MSFT'] },
+      { name: 'representative_prompt', ref: prompt('analyze-congress-trading'), argument: 'representative', value: 'jan', expected: ['Jane Doe', 'Janet Smith'] },
+      { name: 'representative_template', ref: resource('quiver://representative/{name}/trades'), argument: 'name', value: 'roe', expected: ['John Roe'] },
+      { name: 'sector', ref: prompt('government-influence-analysis'), argument: 'sector', value: 'TE', expected: ['Technology'] },
+      { name: 'sector_substring', ref: prompt('government-influence-analysis'), argument: 'sector', value: 'care', expected: ['Health Care'] },
+      { name: 'timeframe', ref: prompt('analyze-congress-trading'), argument: 'timeframe', value: 'h', expected: ['historical', 'both'] },
+      { name: 'data_type', ref: prompt('optimize-query-strategy'), argument: 'data_type', value: 'co', expected: ['congress', 'contracts', 'companies'] },
+      { name: 'focus_areas_list', ref: prompt('company-deep-dive'), argument: 'focus_areas', value: 'trading, lo', expected: ['trading, lobbying'] },
+      { name: 'free_text_argument', ref: prompt('optimize-query-strategy'), argument: 'analysis_goal', value: 'a', expected: [] }
+    ];
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+    const mcp = await this.connect();
+
+    for (const testCase of this.getCases()) {
+      const { completion } = await mcp.complete({ ref: testCase.ref, argument: { name: testCase.argument, value: testCase.value } });
+      this.check(testCase.name, completion.values.join() === testCase.expected.join()
+        ? undefined : `got [${completion.values.join(', ')}], expected [${testCase.expected.join(', ')}]`);
+    }
+
+    // Tickers and sectors are each fetched once per client and cache period, however often they are completed
+    const companyRequests = this.requests.filter(path => path === '/beta/companies').length;
+    this.check('suggestions_cached', companyRequests <= 2 ? undefined : `${companyRequests} companies requests`);
+
+    const { completion } = await mcp.complete({ ref: { type: 'ref/prompt', name: 'company-deep-dive' }, argument: { name: 'ticker', value: '' } });
+    this.check('capped_at_100', completion.values.length === 100 && completion.total === 150 && completion.hasMore === true
+      ? undefined : `${completion.values.length} values, total ${completion.total}, hasMore ${completion.hasMore}`);
+    await mcp.close();
+
+    this.check('upstream_failure_not_cached', await this.checkFailure());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} completion checks passed`);
+    return passed === this.results.length;
+  }
+
+  // A failed fetch offers nothing, and the next request tries upstream again
+  private async checkFailure(): Promise<string | undefined> {
+    const mcp = await this.connect('failing-token');
+    const complete = () => mcp.complete({ ref: { type: 'ref/prompt', name: 'government-influence-analysis' }, argument: { name: 'sector', value: 'ind' } });
+
+    this.failing = true;
+    const failed = await complete();
+    this.failing = false;
+    const recovered = await complete();
+    await mcp.close();
+
+    return failed.completion.values.length === 0 && recovered.completion.values.join() === 'Industrials'
+      ? undefined : `while failing [${failed.completion.values.join(', ')}], after [${recovered.completion.values.join(', ')}]`;
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new CompletionsSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Completions suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
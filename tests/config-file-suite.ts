@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, ConfigError, QuiverMcpConfig } from '../src/config.js';
+
+interface ConfigFileTest {
+  name: string;
+  file?: { name: string; content: string };
+  env?: Record<string, string>;
+  expect: (config: QuiverMcpConfig | undefined, error: Error | undefined) => string | undefined; // Failure description, or undefined
+}
+
+class ConfigFileSuite {
+  private workDir = mkdtempSync(join(tmpdir(), 'quiver-config-'));
+  private passed = 0;
+  private failed = 0;
+
+  constructor() {
+    console.log('🗂️  Config File Suite (JSON/YAML loading, env overrides, validation errors)\n');
+  }
+
+  private getTests(): ConfigFileTest[] {
+    return [
+      {
+        name: 'defaults_without_file',
+        expect: (config, error) => error ? error.message
+          : config!.upstream.timeoutMs !== 30000 || config!.transport.port !== 3000 ? `unexpected defaults ${JSON.stringify(config)}` : undefined
+      },
+      {
+        name: 'yaml_tool_defaults',
+        file: { name: 'config.yaml', content: 'tools:\n  enabled: [get_companies]\n  defaults:\n    get_companies: { format: csv, limit: 5 }\n' },
+        expect: (config, error) => error ? error.message
+          : config!.tools.defaults.get_companies?.format !== 'csv' ? `defaults not loaded: ${JSON.stringify(config!.tools)}` : undefined
+      },
+      {
+        name: 'json_file',
+        file: { name: 'config.json', content: JSON.stringify({ upstream: { timeoutMs: 5000 } }) },
+        expect: (config, error) => error ? error.message
+          : config!.upstream.timeoutMs !== 5000 ? `timeoutMs is ${config!.upstream.timeoutMs}` : undefined
+      },
+      {
+        name: 'env_overrides_file',
+        file: { name: 'config.yaml', content: 'transport:\n  port: 4000\n' },
+        env: { PORT: '5000', RATE_LIMIT_HEAVY_TOOLS: 'get_ticker_data' },
+        expect: (config, error) => error ? error.message
+          : config!.transport.port !== 5000 ? `port is ${config!.transport.port}`
+          : config!.transport.rateLimits.heavyTools.join() !== 'get_ticker_data' ? `heavyTools is ${config!.transport.rateLimits.heavyTools}` : undefined
+      },
+      {
+        name: 'unknown_key_named',
+        file: { name: 'config.yaml', content: 'upstream:\n  timeout: 5000\n' },
+        expect: (_config, error) => error instanceof ConfigError && error.message.includes("upstream: Unrecognized key(s) in object: 'timeout'")
+          ? undefined : `unexpected result: ${error?.message}`
+      },
+      {
+        name: 'unknown_tool_named',
+        file: { name: 'config.yaml', content: 'tools:\n  disabled: [get_companies, get_compnies]\n' },
+        expect: (_config, error) => error?.message.includes('tools.disabled[1]: Unknown tool "get_compnies"')
+          ? undefined : `unexpected result: ${error?.message}`
+      },
+      {
+        name: 'unknown_profile_named',
+        file: { name: 'config.yaml', content: 'tools:\n  profiles:\n    research: { categories: [lobbying] }\n' },
+        env: { QUIVER_TOOL_PROFILE: 'reserch' },
+        expect: (_config, error) => error?.message.includes('tools.profile (from QUIVER_TOOL_PROFILE): Unknown tool profile "reserch"') && error.message.includes('research')
+          ? undefined : `unexpected result: ${error?.message}`
+      },
+      {
+        name: 'env_source_named',
+        env: { LOG_LEVEL: 'loud' },
+        expect: (_config, error) => error?.message.includes('logging.level (from LOG_LEVEL)')
+          ? undefined : `unexpected result: ${error?.message}`
+      },
+      {
+        name: 'yaml_syntax_error',
+        file: { name: 'config.yaml', content: 'upstream: [\n' },
+        expect: (_config, error) => error?.message.startsWith('Cannot parse') ? undefined : `unexpected result: ${error?.message}`
+      }
+    ];
+  }
+
+  public run(): boolean {
+    for (const test of this.getTests()) {
+      let path: string | undefined;
+      if (test.file) {
+        path = join(this.workDir, test.file.name);
+        writeFileSync(path, test.file.content);
+      }
+
+      let config: QuiverMcpConfig | undefined;
+      let error: Error | undefined;
+      try {
+        // An empty environment keeps the developer's own variables out of the results
+        config = loadConfig({ path, env: test.env || {} });
+      } catch (e) {
+        error = e as Error;
+      }
+
+      const failure = test.expect(config, error);
+      console.log(`${failure ? '❌' : '✅'} ${test.name}${failure ? ` - ${failure}` : ''}`);
+      failure ? this.failed++ : this.passed++;
+    }
+
+    console.log(`\n📊 ${this.passed}/${this.passed + this.failed} config checks passed`);
+    return this.failed === 0;
+  }
+
+  public cleanup() {
+    rmSync(this.workDir, { recursive: true, force: true });
+  }
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const suite = new ConfigFileSuite();
+  let success = false;
+  try {
+    success = suite.run();
+  } finally {
+    suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
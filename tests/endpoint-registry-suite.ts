@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { QUIVER_ENDPOINTS, EndpointName, QuiverEndpoint, resolveEndpoint } from '../src/endpoints.js';
+import { TIER_LIMITS } from '../src/upstream-limiter.js';
+import { quiverTools } from '../src/tools.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface RegistryCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+const ENDPOINTS = Object.entries(QUIVER_ENDPOINTS) as [EndpointName, QuiverEndpoint][];
+
+class EndpointRegistrySuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private requests: { path: string; query: any }[] = [];
+  private results: RegistryCheck[] = [];
+
+  constructor() {
+    console.log('🗂️  Endpoint Registry Suite (path templates, generated tools, client methods)\n');
+    initConfig({ env: {} });
+  }
+
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get('/beta/mobile/ticker/:ticker', (req, res) => {
+      this.requests.push({ path: req.path, query: req.query });
+      setTimeout(() => res.json({ ticker: req.params.ticker, name: 'Apple Inc.', recent_congress_trades: 3, wsb_sentiment: 0.4 }), 50);
+    });
+    app.get(/^\/beta\//, (req, res) => {
+      this.requests.push({ path: req.path, query: req.query });
+      res.json([{ Ticker: 'AAPL', Client: 'Apple Inc.', Amount: 10000, Page: req.query.page }]);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+
+    // Every {name} in a template is a path parameter and every path parameter has a slot
+    const templateErrors = ENDPOINTS.flatMap(([name, endpoint]) => {
+      const slots = [...endpoint.path.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+      const pathParams = Object.entries(endpoint.params).filter(([, param]) => param.in === 'path').map(([param]) => param).sort();
+      return slots.join() === pathParams.join() ? [] : [`${name}: template {${slots.join()}} vs params ${pathParams.join()}`];
+    });
+    this.check('path_templates_match_params', templateErrors.length === 0 ? undefined : templateErrors.join('; '));
+
+    const unknownTiers = ENDPOINTS.filter(([, endpoint]) => !(endpoint.tier in TIER_LIMITS)).map(([name]) => name);
+    this.check('tiers_are_known', unknownTiers.length === 0 ? undefined : unknownTiers.join(', '));
+
+    const toolNames = quiverTools.map(tool => tool.name);
+    const registryNames = ENDPOINTS.map(([, endpoint]) => endpoint.tool.name);
+    this.check('one_tool_per_endpoint', toolNames.join() === registryNames.join() && new Set(toolNames).size === toolNames.length
+      ? undefined : `tools ${toolNames.length}, endpoints ${registryNames.length}`);
+
+    this.check('generated_input_schemas', this.checkInputSchemas());
+    this.check('resolve_endpoint', this.checkResolve());
+
+    const client = new QuiverClient({ baseUrl: this.baseUrl, apiToken: 'registry-token' });
+    const before = this.requests.length;
+    const bulk = await client.endpoints.bulkCongressTrading({ representative: 'Jane Doe', pages: 2 });
+    const pages = this.requests.slice(before).map(request => `${request.path}?page=${request.query.page}&representative=${request.query.representative}`);
+    this.check('client_pages_style', !bulk.error && bulk.data.length === 2 && pages.join() === '/beta/bulk/congresstrading?page=1&representative=Jane Doe,/beta/bulk/congresstrading?page=2&representative=Jane Doe'
+      ? undefined : `${JSON.stringify(bulk)} from ${pages.join(', ')}`);
+
+    this.check('tool_calls_through_registry', await this.checkToolCalls(client));
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} registry checks passed`);
+    return passed === this.results.length;
+  }
+
+  private checkInputSchemas(): string | undefined {
+    const tool = (name: string) => quiverTools.find(t => t.name === name)!;
+    const lobbying = tool('get_historical_lobbying').inputSchema;
+    const bulk = tool('get_bulk_congress_trading').inputSchema;
+    const companies = tool('get_companies').inputSchema;
+
+    const problems = [
+      lobbying.required.join() !== 'ticker' && `historical lobbying requires ${lobbying.required}`,
+      Object.keys(lobbying.properties).join() !== 'ticker,page,page_size,query,client_name,cache' && `raw tool properties ${Object.keys(lobbying.properties)}`,
+      !bulk.properties.pages && 'bulk tool lacks pages',
+      bulk.properties.mode?.enum?.join() !== 'compact,summary,detailed' && 'bulk tool lacks response options',
+      companies.properties.fields?.examples?.[0]?.join() !== 'ticker,name,exchange,market_cap' && 'companies fields lack default examples',
+      quiverTools.some(t => !t.tier) && 'a tool has no tier'
+    ].filter(Boolean);
+    return problems.length === 0 ? undefined : problems.join('; ');
+  }
+
+  private checkResolve(): string | undefined {
+    const lobbying = resolveEndpoint(QUIVER_ENDPOINTS.historicalLobbying, { ticker: 'BRK/B', query: 'energy', page: 2, mode: 'summary' });
+    const companies = resolveEndpoint(QUIVER_ENDPOINTS.companies, { search: 'Apple', page: 2 });
+
+    let missing = '';
+    try {
+      resolveEndpoint(QUIVER_ENDPOINTS.tickerData, { days: 5 });
+    } catch (error) {
+      missing = error instanceof Error ? error.message : String(error);
+    }
+
+    return lobbying.path === '/beta/historical/lobbying/BRK%2FB' && JSON.stringify(lobbying.query) === '{"query":"energy","page":2}' &&
+      JSON.stringify(companies.query) === '{"search":"Apple"}' && missing === 'ticker parameter is required'
+      ? undefined : `${JSON.stringify(lobbying)}, ${JSON.stringify(companies)}, missing: ${missing || 'no error'}`;
+  }
+
+  // Path and query come from the registry; tool options and the ticker stay out of the query string
+  private async checkToolCalls(client: QuiverClient): Promise<string | undefined> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(client).connect(serverTransport);
+    const mcp = new Client({ name: 'endpoint-registry-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+
+    const listed = await mcp.listTools();
+    const tier = listed.tools.find(tool => tool.name === 'get_bulk_congress_trading')?._meta?.['quiver/tier'];
+
+    const before = this.requests.length;
+    await mcp.callTool({ name: 'get_historical_lobbying', arguments: { ticker: 'AAPL', client_name: 'Apple', page: 1 } });
+    await mcp.callTool({ name: 'get_recent_lobbying', arguments: { query: 'energy', mode: 'summary', limit: 5 } });
+    const sent = this.requests.slice(before).map(request => `${request.path} ${JSON.stringify(request.query)}`);
+
+    // Concurrent calls share one upstream response; narrowing one to a section must not narrow the other
+    const [narrowed, full] = await Promise.all([
+      mcp.callTool({ name: 'get_ticker_data', arguments: { ticker: 'AAPL', sections: ['congress'], mode: 'detailed' } }),
+      mcp.callTool({ name: 'get_ticker_data', arguments: { ticker: 'AAPL', mode: 'detailed' } })
+    ]);
+    await mcp.close();
+
+    const narrowedText = (narrowed.content as any[])[0].text;
+    const fullText = (full.content as any[])[0].text;
+    const expected = [
+      '/beta/historical/lobbying/AAPL {"client_name":"Apple","page":"1"}',
+      '/beta/live/lobbying {"query":"energy"}'
+    ];
+    return tier === 'tier2' && sent.join() === expected.join() && !narrowedText.includes('wsb_sentiment') && fullText.includes('wsb_sentiment')
+      ? undefined : `tier ${tier}, sent ${sent.join(' | ')}, ticker data ${narrowedText} / ${fullText}`;
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new EndpointRegistrySuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Endpoint registry suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
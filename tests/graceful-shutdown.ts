@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+import axios from 'axios';
+import express from 'express';
+import { spawn, ChildProcess } from 'child_process';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+
+interface ShutdownCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+// Upstream latency, so a tool call is still running when SIGTERM arrives
+const UPSTREAM_DELAY_MS = 2000;
+
+class GracefulShutdownSuite {
+  private upstream?: HttpServer;
+  private httpServer?: ChildProcess;
+  private results: ShutdownCheck[] = [];
+
+  constructor(private httpPort: number = 3904) {
+    console.log('🛑 Graceful Shutdown Suite (drain, readiness, exit code)\n');
+  }
+
+  private async startUpstream(): Promise<string> {
+    const app = express();
+    app.get(/^\/beta\//, (_req, res) => {
+      setTimeout(() => res.json([{ ticker: 'AAPL', name: 'Apple Inc.' }]), UPSTREAM_DELAY_MS);
+    });
+
+    return new Promise(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        const { port } = this.upstream!.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      });
+    });
+  }
+
+  private async startHttpServer(baseUrl: string): Promise<void> {
+    this.httpServer = spawn(process.execPath, ['--import', 'tsx', 'src/server-http.ts'], {
+      env: {
+        ...process.env,
+        PORT: String(this.httpPort),
+        QUIVER_API_TOKEN: 'shutdown-token',
+        QUIVER_TOKEN_FALLBACK: 'true',
+        QUIVER_BASE_URL: baseUrl
+      },
+      stdio: 'ignore'
+    });
+
+    const deadline = Date.now() + 30000;
+    while (Date.now() < deadline) {
+      try {
+        await axios.get(`http://127.0.0.1:${this.httpPort}/ready`, { timeout: 1000 });
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+    throw new Error('HTTP server did not become ready within 30s');
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startHttpServer(await this.startUpstream());
+    const exited = new Promise<number | null>(resolve => this.httpServer!.on('exit', resolve));
+
+    const inFlight = axios.post(`http://127.0.0.1:${this.httpPort}/message`, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'get_companies', arguments: {} }
+    }, { headers: { 'MCP-Protocol-Version': LATEST_PROTOCOL_VERSION }, validateStatus: () => true });
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    this.httpServer!.kill('SIGTERM');
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const ready = await axios.get(`http://127.0.0.1:${this.httpPort}/ready`, { validateStatus: () => true });
+    this.check('not_ready_while_draining', ready.status === 503 && ready.data.ready === false ? undefined : `got ${ready.status} ${JSON.stringify(ready.data)}`);
+
+    const refused = await axios.post(`http://127.0.0.1:${this.httpPort}/message`, { jsonrpc: '2.0', id: 2, method: 'ping' }, { validateStatus: () => true });
+    this.check('new_requests_refused', refused.status === 503 ? undefined : `expected 503, got ${refused.status}`);
+
+    const finished = await inFlight;
+    this.check('in_flight_call_completes', finished.data.result?.content && !finished.data.result.isError ? undefined : `got ${JSON.stringify(finished.data)}`);
+
+    const exitCode = await exited;
+    this.check('clean_exit', exitCode === 0 ? undefined : `exit code ${exitCode}`);
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} shutdown checks passed`);
+    return passed === this.results.length;
+  }
+
+  public async cleanup(): Promise<void> {
+    if (this.httpServer?.exitCode === null) {
+      this.httpServer.kill('SIGKILL');
+    }
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const suite = new GracefulShutdownSuite(port);
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Shutdown suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+
+import axios, { AxiosResponse } from 'axios';
+import { spawn, ChildProcess } from 'child_process';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+
+interface AuthTest {
+  name: string;
+  test: () => Promise<string | undefined>; // Returns a failure description, or undefined on success
+}
+
+interface AuthTestResult {
+  testName: string;
+  success: boolean;
+  error?: string;
+}
+
+const ISSUER = 'https://issuer.test';
+
+// Static keys: one limited to a single tool, one with resource access only
+const API_KEYS = [
+  { name: 'librechat', key: 'librechat-key', tools: ['get_companies'] },
+  { name: 'dashboard', key: 'dashboard-key', scopes: ['quiver:resources'] }
+];
+
+class HttpAuthSuite {
+  private httpServer?: ChildProcess;
+  private workDir = mkdtempSync(join(tmpdir(), 'quiver-auth-'));
+  private signingKey!: KeyObject;
+  private results: AuthTestResult[] = [];
+
+  constructor(private httpPort: number = 3902) {
+    console.log('🔒 HTTP Auth Suite (API keys, OAuth bearer tokens, tool allowlists)\n');
+  }
+
+  private get baseUrl(): string {
+    return `http://127.0.0.1:${this.httpPort}`;
+  }
+
+  /**
+   * Writes a JWKS with a fresh ES256 key; tokens are signed with its private half
+   */
+  private writeJwks(): string {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.signingKey = privateKey;
+
+    const jwksFile = join(this.workDir, 'jwks.json');
+    writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'ES256' }] }));
+    return jwksFile;
+  }
+
+  private issueToken(claims: Record<string, any>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const header = encode({ alg: 'ES256', kid: 'test-key', typ: 'JWT' });
+    const payload = encode({
+      iss: ISSUER,
+      aud: `${this.baseUrl}/mcp`,
+      exp: Math.floor(Date.now() / 1000) + 600,
+      ...claims
+    });
+    const signature = sign('sha256', Buffer.from(`${header}.${payload}`), { key: this.signingKey, dsaEncoding: 'ieee-p1363' });
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  }
+
+  private async startHttpServer(): Promise<void> {
+    this.httpServer = spawn(process.execPath, ['--import', 'tsx', 'src/server-http.ts'], {
+      env: {
+        ...process.env,
+        PORT: String(this.httpPort),
+        // Requests below are rejected or answered before reaching QuiverAPI
+        QUIVER_API_TOKEN: 'unused',
+        QUIVER_TOKEN_FALLBACK: 'true',
+        QUIVER_BASE_URL: 'http://127.0.0.1:9',
+        MCP_API_KEYS: JSON.stringify(API_KEYS),
+        OAUTH_ISSUER: ISSUER,
+        OAUTH_JWKS_FILE: this.writeJwks(),
+        // Without MCP_RESOURCE_URL the resource URL is derived from the request's host
+        OAUTH_AUDIENCE: `${this.baseUrl}/mcp`
+      },
+      stdio: 'ignore'
+    });
+
+    const deadline = Date.now() + 30000;
+    while (Date.now() < deadline) {
+      try {
+        await axios.get(`${this.baseUrl}/health`, { timeout: 1000 });
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+    throw new Error('HTTP server did not become healthy within 30s');
+  }
+
+  private message(method: string, params?: Record<string, any>, token?: string): Promise<AxiosResponse> {
+    return axios.post(`${this.baseUrl}/message`, { jsonrpc: '2.0', id: 1, method, params }, {
+      headers: {
+        'MCP-Protocol-Version': LATEST_PROTOCOL_VERSION,
+        ...(token && { Authorization: `Bearer ${token}` })
+      },
+      validateStatus: () => true
+    });
+  }
+
+  private getTests(): AuthTest[] {
+    return [
+      {
+        name: 'missing_token_rejected',
+        test: async () => {
+          const response = await this.message('tools/list');
+          const challenge = String(response.headers['www-authenticate'] || '');
+          if (response.status !== 401) return `expected 401, got ${response.status}`;
+          if (!challenge.includes(`resource_metadata="${this.baseUrl}/.well-known/oauth-protected-resource"`)) return `challenge lacks resource_metadata: ${challenge}`;
+        }
+      },
+      {
+        name: 'unknown_key_rejected',
+        test: async () => {
+          const response = await this.message('tools/list', undefined, 'not-a-key');
+          if (response.status !== 401) return `expected 401, got ${response.status}`;
+        }
+      },
+      {
+        name: 'protected_resource_metadata',
+        test: async () => {
+          const { data } = await axios.get(`${this.baseUrl}/.well-known/oauth-protected-resource`);
+          if (data.resource !== `${this.baseUrl}/mcp`) return `unexpected resource ${data.resource}`;
+          if (data.authorization_servers?.[0] !== ISSUER) return `unexpected authorization_servers ${JSON.stringify(data.authorization_servers)}`;
+        }
+      },
+      {
+        name: 'health_hides_details',
+        test: async () => {
+          const anonymous = await axios.get(`${this.baseUrl}/health`);
+          const authenticated = await axios.get(`${this.baseUrl}/health`, { headers: { Authorization: 'Bearer librechat-key' } });
+          if ('sessions' in anonymous.data) return 'anonymous health check exposed session counts';
+          if (!('sessions' in authenticated.data)) return 'authenticated health check lacks session counts';
+        }
+      },
+      {
+        name: 'tools_list_allowlist',
+        test: async () => {
+          const response = await this.message('tools/list', undefined, 'librechat-key');
+          const names = response.data.result?.tools?.map((tool: any) => tool.name);
+          if (JSON.stringify(names) !== '["get_companies"]') return `unexpected tools ${JSON.stringify(names)}`;
+        }
+      },
+      {
+        name: 'tools_call_outside_allowlist',
+        test: async () => {
+          const response = await this.message('tools/call', { name: 'get_funds', arguments: {} }, 'librechat-key');
+          if (response.data.error?.code !== -32003) return `expected -32003, got ${JSON.stringify(response.data)}`;
+        }
+      },
+      {
+        name: 'key_scope_enforced',
+        test: async () => {
+          const denied = await this.message('tools/list', undefined, 'dashboard-key');
+          const allowed = await this.message('resources/list', undefined, 'dashboard-key');
+          if (denied.data.error?.code !== -32003) return `tools/list: expected -32003, got ${JSON.stringify(denied.data)}`;
+          if (!allowed.data.result?.resources) return `resources/list failed: ${JSON.stringify(allowed.data)}`;
+        }
+      },
+      {
+        name: 'oauth_token_scopes',
+        test: async () => {
+          const token = this.issueToken({ sub: 'alice', scope: 'quiver:prompts' });
+          const allowed = await this.message('prompts/list', undefined, token);
+          const denied = await this.message('resources/list', undefined, token);
+          if (!allowed.data.result?.prompts) return `prompts/list failed: ${JSON.stringify(allowed.data)}`;
+          if (denied.data.error?.code !== -32003) return `resources/list: expected -32003, got ${JSON.stringify(denied.data)}`;
+        }
+      },
+      {
+        name: 'oauth_wrong_audience',
+        test: async () => {
+          const token = this.issueToken({ sub: 'alice', scope: 'quiver:tools', aud: 'https://other.example/mcp' });
+          const response = await this.message('tools/list', undefined, token);
+          if (response.status !== 401) return `expected 401, got ${response.status}`;
+        }
+      },
+      {
+        name: 'oauth_expired',
+        test: async () => {
+          const token = this.issueToken({ sub: 'alice', scope: 'quiver:tools', exp: Math.floor(Date.now() / 1000) - 3600 });
+          const response = await this.message('tools/list', undefined, token);
+          if (response.status !== 401) return `expected 401, got ${response.status}`;
+        }
+      },
+      {
+        name: 'session_bound_to_owner',
+        test: async () => {
+          const headers = { Accept: 'application/json, text/event-stream', 'Content-Type': 'application/json' };
+          const initialize = await axios.post(`${this.baseUrl}/mcp`, {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'auth-suite', version: '1.0.0' } }
+          }, { headers: { ...headers, Authorization: 'Bearer librechat-key' }, responseType: 'text' });
+
+          const sessionId = initialize.headers['mcp-session-id'];
+          if (!sessionId) return `initialize returned no session (${initialize.status})`;
+
+          const hijack = await axios.post(`${this.baseUrl}/mcp`, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, {
+            headers: { ...headers, Authorization: 'Bearer dashboard-key', 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': LATEST_PROTOCOL_VERSION },
+            validateStatus: () => true
+          });
+          if (hijack.status !== 403) return `expected 403 for another key, got ${hijack.status}`;
+        }
+      }
+    ];
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startHttpServer();
+
+    for (const authTest of this.getTests()) {
+      let error: string | undefined;
+      try {
+        error = await authTest.test();
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+
+      console.log(`${error ? '❌' : '✅'} ${authTest.name}${error ? ` - ${error}` : ''}`);
+      this.results.push({ testName: authTest.name, success: !error, error });
+    }
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} auth checks passed`);
+    return passed === this.results.length;
+  }
+
+  public cleanup(): void {
+    this.httpServer?.kill();
+    rmSync(this.workDir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const suite = new HttpAuthSuite(port);
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Auth suite failed:', error);
+  } finally {
+    suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { spawn } from 'child_process';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LATEST_PROTOCOL_VERSION, LoggingLevel, LoggingMessageNotification, LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer } from '../src/server.js';
+import { GracefulShutdown } from '../src/shutdown.js';
+import { initConfig } from '../src/config.js';
+
+interface LoggingCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+type LogEntry = LoggingMessageNotification['params'];
+
+class LoggingSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private mcp?: Client;
+  private entries: LogEntry[] = [];
+  private results: LoggingCheck[] = [];
+
+  constructor() {
+    console.log('📝 Logging Suite (logging/setLevel, notifications/message, clean stdout on stdio)\n');
+    initConfig({ env: {} });
+  }
+
+  // Companies succeed; any other path is a 404, which QuiverClient logs as an error
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get('/beta/companies', (_req, res) => {
+      res.json([{ ticker: 'AAPL', name: 'Apple Inc.' }]);
+    });
+    app.get(/^\/beta\//, (req, res) => {
+      res.status(404).json({ message: `No data for ${req.path}` });
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private async connect(): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(new QuiverClient({ baseUrl: this.baseUrl, apiToken: 'logging-token' })).connect(serverTransport);
+    const mcp = new Client({ name: 'logging-suite', version: '1.0.0' });
+    mcp.setNotificationHandler(LoggingMessageNotificationSchema, async notification => {
+      this.entries.push(notification.params);
+    });
+    await mcp.connect(clientTransport);
+    return mcp;
+  }
+
+  // Log entries sent while making a successful and a failing tool call
+  private async logsForCalls(level?: LoggingLevel): Promise<LogEntry[]> {
+    if (level) {
+      await this.mcp!.setLoggingLevel(level);
+    }
+    this.entries = [];
+    await this.mcp!.callTool({ name: 'get_companies', arguments: { limit: 1 } });
+    await this.mcp!.callTool({ name: 'get_historical_lobbying', arguments: { ticker: 'ZZZZ' } });
+    return this.entries;
+  }
+
+  private describe(entries: LogEntry[]): string {
+    return entries.map(entry => `${entry.level}: ${entry.data}`).join(' | ') || 'no entries';
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+    this.mcp = await this.connect();
+
+    // LOG_LEVEL defaults to info: request errors are sent, request traces are not
+    const initial = await this.logsForCalls();
+    this.check('default_level_info', initial.some(entry => entry.level === 'error') && !initial.some(entry => entry.level === 'debug')
+      ? undefined : this.describe(initial));
+
+    const debug = await this.logsForCalls('debug');
+    const trace = debug.find(entry => String(entry.data).startsWith('Making request to: GET /beta/companies'));
+    this.check('debug_entries_delivered', trace?.logger === 'quiver-client' && debug.some(entry => entry.level === 'error')
+      ? undefined : this.describe(debug));
+
+    const failure = debug.find(entry => entry.level === 'error');
+    this.check('error_entry_content', failure?.logger === 'quiver-client' && String(failure.data).includes('/beta/historical/lobbying/ZZZZ')
+      ? undefined : JSON.stringify(failure));
+
+    const errorsOnly = await this.logsForCalls('error');
+    this.check('set_level_filters', errorsOnly.length > 0 && errorsOnly.every(entry => entry.level === 'error') ? undefined : this.describe(errorsOnly));
+
+    const silent = await this.logsForCalls('emergency');
+    this.check('emergency_silences_diagnostics', silent.length === 0 ? undefined : this.describe(silent));
+
+    this.check('shutdown_notice_respects_level', await this.checkShutdownNotice());
+    this.check('stdio_stdout_clean', await this.checkStdio());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} logging checks passed`);
+    return passed === this.results.length;
+  }
+
+  // The shutdown notice reaches a client at the default level but not one that asked for errors only
+  private async checkShutdownNotice(): Promise<string | undefined> {
+    const shutdown = new GracefulShutdown({ timeoutMs: 0, log: () => {} });
+    const notices = await Promise.all((['info', 'error'] as LoggingLevel[]).map(async level => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await shutdown.register(createQuiverServer(new QuiverClient({ baseUrl: this.baseUrl, apiToken: 'logging-token' }))).connect(serverTransport);
+      const mcp = new Client({ name: 'logging-suite', version: '1.0.0' });
+      const received: LogEntry[] = [];
+      mcp.setNotificationHandler(LoggingMessageNotificationSchema, async notification => {
+        received.push(notification.params);
+      });
+      await mcp.connect(clientTransport);
+      await mcp.setLoggingLevel(level);
+      return received;
+    }));
+
+    await shutdown.drain('logging suite');
+    const [atInfo, errorsOnly] = notices;
+    return atInfo.some(entry => entry.level === 'notice' && String(entry.data).includes('shutting down')) && errorsOnly.length === 0
+      ? undefined : `info client: ${this.describe(atInfo)}, error client: ${this.describe(errorsOnly)}`;
+  }
+
+  /**
+   * Runs the stdio server with debug logging and checks that every stdout
+   * line is a JSON-RPC message: diagnostics arrive as notifications/message
+   * and the startup banner goes to stderr.
+   */
+  private async checkStdio(): Promise<string | undefined> {
+    const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+      env: { ...process.env, QUIVER_API_TOKEN: 'logging-token', QUIVER_BASE_URL: this.baseUrl, LOG_LEVEL: 'debug' },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stderr.on('data', chunk => stderr += chunk);
+
+    const messages = [
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'logging-suite', version: '1.0.0' } } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'get_companies', arguments: { limit: 1 } } },
+      { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'get_historical_lobbying', arguments: { ticker: 'ZZZZ' } } }
+    ];
+
+    // Both tool calls answered, or the server gave up
+    const done = new Promise<void>(resolve => {
+      const timeout = setTimeout(resolve, 30000);
+      child.stdout.on('data', chunk => {
+        stdout += chunk;
+        if (stdout.includes('"id":3')) {
+          clearTimeout(timeout);
+          resolve();
+        }
+      });
+      child.on('exit', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+    child.stdin.write(messages.map(message => JSON.stringify(message)).join('\n') + '\n');
+    await done;
+    child.kill();
+
+    const lines = stdout.split('\n').filter(line => line.trim().length > 0);
+    const invalid = lines.filter(line => {
+      try {
+        return JSON.parse(line).jsonrpc !== '2.0';
+      } catch {
+        return true;
+      }
+    });
+    const parsed = lines.filter(line => !invalid.includes(line)).map(line => JSON.parse(line));
+    const logs = parsed.filter(message => message.method === 'notifications/message');
+    const answered = parsed.filter(message => message.id === 2 || message.id === 3).length;
+
+    return invalid.length === 0 && answered === 2 && logs.some(message => message.params.level === 'debug') &&
+      logs.some(message => message.params.level === 'error') && stderr.includes('running on stdio')
+      ? undefined : `${invalid.length} non-JSON-RPC lines (${invalid[0]?.slice(0, 80)}), ${answered} replies, ${logs.length} log notifications`;
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.mcp?.close();
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new LoggingSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Logging suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Progress, ProgressNotification } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer } from '../src/server.js';
+import { createProgressReporter } from '../src/progress.js';
+import { initConfig } from '../src/config.js';
+
+interface ProgressCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+class ProgressSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private mcp?: Client;
+  private results: ProgressCheck[] = [];
+
+  constructor() {
+    console.log('⏳ Progress Suite (notifications/progress for single and paginated tool calls)\n');
+    initConfig({ env: {} });
+  }
+
+  // Each page holds two rows tagged with its page number
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get(/^\/beta\//, (req, res) => {
+      const page = Number(req.query.page || 1);
+      res.json([
+        { Ticker: 'AAPL', Representative: 'Jane Doe', Page: page },
+        { Ticker: 'MSFT', Representative: 'John Roe', Page: page }
+      ]);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private async connect(): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(new QuiverClient({ baseUrl: this.baseUrl, apiToken: 'progress-token' })).connect(serverTransport);
+    const mcp = new Client({ name: 'progress-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+    return mcp;
+  }
+
+  // Progress updates received while calling a tool with a progress token
+  private async callWithProgress(name: string, args: Record<string, unknown>): Promise<Progress[]> {
+    const updates: Progress[] = [];
+    await this.mcp!.callTool({ name, arguments: args }, undefined, { onprogress: progress => updates.push(progress) });
+    return updates;
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+    this.mcp = await this.connect();
+
+    const single = await this.callWithProgress('get_companies', { limit: 1 });
+    this.check('single_request_sequence', this.checkSequence(single, 1));
+
+    const paged = await this.callWithProgress('get_bulk_congress_trading', { pages: 3, mode: 'compact' });
+    this.check('paginated_sequence', this.checkSequence(paged, 3));
+
+    const labels = [1, 2, 3].map(page => `Parsed 2 rows (page ${page}/3)`);
+    const parsed = paged.filter(update => update.message?.startsWith('Parsed'));
+    this.check('paginated_page_labels', parsed.map(update => update.message).join() === labels.join() &&
+      parsed.map(update => update.progress).join() === '3,6,9' ? undefined : parsed.map(update => `${update.progress} ${update.message}`).join(' | '));
+
+    this.check('large_download_strictly_increasing', this.checkLargeDownload());
+
+    const silent: Progress[] = [];
+    const notifications = this.mcp.fallbackNotificationHandler;
+    this.mcp.fallbackNotificationHandler = async notification => {
+      if (notification.method === 'notifications/progress') silent.push(notification.params as Progress);
+    };
+    await this.mcp.callTool({ name: 'get_bulk_congress_trading', arguments: { pages: 2 } });
+    this.mcp.fallbackNotificationHandler = notifications;
+    this.check('no_token_no_progress', silent.length === 0 ? undefined : `${silent.length} updates without a progress token`);
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} progress checks passed`);
+    return passed === this.results.length;
+  }
+
+  // The first chunks of a large body move progress by less than the rounding step and are dropped
+  private checkLargeDownload(): string | undefined {
+    const sent: ProgressNotification['params'][] = [];
+    const report = createProgressReporter('large', async params => {
+      sent.push(params);
+    });
+    report({ stage: 'request_sent', path: '/beta/bulk/congresstrading' });
+    report({ stage: 'bytes_received', loaded: 10, total: 100000 });
+    report({ stage: 'bytes_received', loaded: 20, total: 100000 });
+    report({ stage: 'bytes_received', loaded: 50000, total: 100000 });
+    report({ stage: 'rows_parsed', rows: 10 });
+
+    const values = sent.map(params => params.progress);
+    return values.join() === '1,1.5,3' ? undefined : `sent ${values.join(', ')}`;
+  }
+
+  // Strictly increasing, a fixed total of three units per page plus formatting, ending on that total
+  private checkSequence(updates: Progress[], pages: number): string | undefined {
+    const total = pages * 3 + 1;
+    const increasing = updates.every((update, index) => index === 0 || update.progress > updates[index - 1].progress);
+    const last = updates[updates.length - 1];
+    const sent = updates.filter(update => update.message?.startsWith('Request sent')).map(update => update.progress);
+
+    return updates.length > 0 && increasing && updates.every(update => update.total === total) &&
+      last.progress === total && last.message === 'Formatting response' &&
+      sent.join() === Array.from({ length: pages }, (_, index) => index * 3 + 1).join()
+      ? undefined : updates.map(update => `${update.progress}/${update.total} ${update.message}`).join(' | ') || 'no updates';
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.mcp?.close();
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new ProgressSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Progress suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
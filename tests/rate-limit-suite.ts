@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+
+import axios, { AxiosResponse } from 'axios';
+import express from 'express';
+import { spawn, ChildProcess } from 'child_process';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+
+interface RateLimitTest {
+  name: string;
+  test: () => Promise<string | undefined>; // Returns a failure description, or undefined on success
+}
+
+interface RateLimitTestResult {
+  testName: string;
+  success: boolean;
+  error?: string;
+}
+
+const RATE_LIMITED = -32029;
+
+// Upstream latency, long enough for calls fired together to overlap
+const UPSTREAM_DELAY_MS = 500;
+
+// Small budgets so the suite can exhaust them quickly
+const LIMITS = {
+  RATE_LIMIT_REQUESTS_PER_MINUTE: '12',
+  RATE_LIMIT_MAX_CONCURRENT_TOOL_CALLS: '2',
+  RATE_LIMIT_HEAVY_CALLS_PER_MINUTE: '10',
+  RATE_LIMIT_HEAVY_MAX_CONCURRENT: '1'
+};
+
+const API_KEYS = [
+  { name: 'agent-a', key: 'agent-a-key' },
+  { name: 'agent-b', key: 'agent-b-key' },
+  { name: 'agent-c', key: 'agent-c-key' }
+];
+
+class RateLimitSuite {
+  private upstream?: HttpServer;
+  private httpServer?: ChildProcess;
+  private results: RateLimitTestResult[] = [];
+
+  constructor(private httpPort: number = 3903) {
+    console.log('🚦 Rate Limit Suite (per-client request budgets and tool-call concurrency)\n');
+  }
+
+  private async startUpstream(): Promise<string> {
+    const app = express();
+    app.get(/^\/beta\//, (_req, res) => {
+      setTimeout(() => res.json([{ ticker: 'AAPL', name: 'Apple Inc.' }]), UPSTREAM_DELAY_MS);
+    });
+
+    return new Promise(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        const { port } = this.upstream!.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      });
+    });
+  }
+
+  private async startHttpServer(baseUrl: string): Promise<void> {
+    this.httpServer = spawn(process.execPath, ['--import', 'tsx', 'src/server-http.ts'], {
+      env: {
+        ...process.env,
+        ...LIMITS,
+        PORT: String(this.httpPort),
+        QUIVER_API_TOKEN: 'rate-limit-token',
+        QUIVER_TOKEN_FALLBACK: 'true',
+        QUIVER_BASE_URL: baseUrl,
+        MCP_API_KEYS: JSON.stringify(API_KEYS)
+      },
+      stdio: 'ignore'
+    });
+
+    const deadline = Date.now() + 30000;
+    while (Date.now() < deadline) {
+      try {
+        await axios.get(`http://127.0.0.1:${this.httpPort}/health`, { timeout: 1000 });
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+    throw new Error('HTTP server did not become healthy within 30s');
+  }
+
+  private message(apiKey: string, body: any): Promise<AxiosResponse> {
+    return axios.post(`http://127.0.0.1:${this.httpPort}/message`, body, {
+      headers: { Authorization: `Bearer ${apiKey}`, 'MCP-Protocol-Version': LATEST_PROTOCOL_VERSION },
+      validateStatus: () => true
+    });
+  }
+
+  private callTool(apiKey: string, name: string, args: Record<string, any> = {}): Promise<AxiosResponse> {
+    return this.message(apiKey, { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+  }
+
+  private getTests(): RateLimitTest[] {
+    return [
+      {
+        name: 'concurrent_tool_calls_capped',
+        test: async () => {
+          const responses = await Promise.all([1, 2, 3].map(() => this.callTool('agent-a-key', 'get_companies')));
+          const limited = responses.filter(r => r.data.error?.code === RATE_LIMITED);
+          if (limited.length !== 1) return `expected 1 of 3 calls limited, got ${limited.length}`;
+          if (!/retry after \d+s/.test(limited[0].data.error.message)) return `no retry hint in "${limited[0].data.error.message}"`;
+        }
+      },
+      {
+        name: 'heavy_tool_budget_separate',
+        test: async () => {
+          const responses = await Promise.all([
+            this.callTool('agent-b-key', 'get_ticker_data', { ticker: 'AAPL' }),
+            this.callTool('agent-b-key', 'get_ticker_data', { ticker: 'MSFT' })
+          ]);
+          const limited = responses.filter(r => r.data.error?.code === RATE_LIMITED);
+          if (limited.length !== 1) return `expected 1 of 2 heavy calls limited, got ${limited.length}`;
+          if (!limited[0].data.error.message.includes('heavy tool calls')) return `unexpected message "${limited[0].data.error.message}"`;
+        }
+      },
+      {
+        name: 'clients_limited_independently',
+        test: async () => {
+          const response = await this.callTool('agent-c-key', 'get_companies');
+          if (response.data.error) return `agent-c was limited: ${JSON.stringify(response.data.error)}`;
+        }
+      },
+      {
+        name: 'request_rate_429',
+        test: async () => {
+          // A batch counts each entry, so this exhausts agent-c's remaining budget at once
+          const batch = Array.from({ length: 12 }, (_, i) => ({ jsonrpc: '2.0', id: i + 1, method: 'ping' }));
+          const response = await this.message('agent-c-key', batch);
+          const retryAfter = Number(response.headers['retry-after']);
+          if (response.status !== 429) return `expected 429, got ${response.status}`;
+          if (!(retryAfter > 0)) return `missing Retry-After header`;
+          if (response.data.error?.code !== RATE_LIMITED) return `unexpected body ${JSON.stringify(response.data)}`;
+          if (!(response.data.error.data?.retryAfterMs > 0)) return `missing retryAfterMs in ${JSON.stringify(response.data.error)}`;
+        }
+      }
+    ];
+  }
+
+  public async run(): Promise<boolean> {
+    const baseUrl = await this.startUpstream();
+    await this.startHttpServer(baseUrl);
+
+    for (const rateLimitTest of this.getTests()) {
+      let error: string | undefined;
+      try {
+        error = await rateLimitTest.test();
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+
+      console.log(`${error ? '❌' : '✅'} ${rateLimitTest.name}${error ? ` - ${error}` : ''}`);
+      this.results.push({ testName: rateLimitTest.name, success: !error, error });
+    }
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} rate limit checks passed`);
+    return passed === this.results.length;
+  }
+
+  public async cleanup(): Promise<void> {
+    this.httpServer?.kill();
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const suite = new RateLimitSuite(port);
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Rate limit suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,238 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { Logger } from '../src/logging.js';
+import { QuiverProgressEvent } from '../src/types.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface CoalescingCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+class RequestCoalescingSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private requests: { method: string; path: string; query: any }[] = [];
+  private aborted = 0; // Upstream requests whose connection closed before the response
+  private results: CoalescingCheck[] = [];
+
+  constructor() {
+    console.log('🔗 Request Coalescing Suite (shared in-flight GETs, cancellation, progress)\n');
+    initConfig({ env: {} });
+  }
+
+  // Every endpoint answers after ?delay ms (default 100), slow enough for callers to overlap, with ?status (default 200)
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.all(/^\/beta\//, (req, res) => {
+      this.requests.push({ method: req.method, path: req.path, query: req.query });
+      let closed = false;
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          closed = true;
+          this.aborted++;
+        }
+      });
+      setTimeout(() => {
+        if (!closed) res.status(Number(req.query.status || 200)).json([{ Ticker: 'AAPL', Representative: 'Jane Doe', Request: this.requests.length }]);
+      }, Number(req.query.delay || 100));
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private client(apiToken: string = 'coalescing-token'): QuiverClient {
+    return new QuiverClient({ baseUrl: this.baseUrl, apiToken });
+  }
+
+  // Upstream requests made while `work` runs
+  private async count(work: () => Promise<unknown>): Promise<number> {
+    const before = this.requests.length;
+    await work();
+    return this.requests.length - before;
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+    const client = this.client();
+
+    let responses: any[] = [];
+    const shared = await this.count(async () => {
+      responses = await Promise.all([1, 2, 3].map(() => client.makeRequest('/beta/live/congresstrading')));
+    });
+    this.check('concurrent_gets_share_one_request', shared === 1 && responses.every(r => !r.error && r.data[0].Request === responses[0].data[0].Request)
+      ? undefined : `${shared} upstream requests`);
+
+    const normalized = await this.count(() => Promise.all([
+      client.makeRequest('/beta/live/congresstrading', 'GET', { normalized: true, page: 1 }),
+      client.makeRequest('/beta/live/congresstrading', 'GET', { page: 1, normalized: true, query: undefined })
+    ]));
+    const distinct = await this.count(() => Promise.all([
+      client.makeRequest('/beta/live/congresstrading', 'GET', { page: 1 }),
+      client.makeRequest('/beta/live/congresstrading', 'GET', { page: 2 })
+    ]));
+    this.check('params_normalized', normalized === 1 && distinct === 2 ? undefined : `same params ${normalized}, different params ${distinct}`);
+
+    const sessions = await this.count(() => Promise.all([this.client().getCongressHoldings(), this.client().getCongressHoldings()]));
+    const tokens = await this.count(() => Promise.all([this.client('token-a').getCongressHoldings(), this.client('token-b').getCongressHoldings()]));
+    this.check('shared_across_clients_not_tokens', sessions === 1 && tokens === 2 ? undefined : `same token ${sessions}, different tokens ${tokens}`);
+
+    const sequential = await this.count(async () => {
+      await client.getCongressHoldings();
+      await client.getCongressHoldings();
+    });
+    this.check('completed_requests_not_reused', sequential === 2 ? undefined : `${sequential} upstream requests`);
+
+    const posts = await this.count(() => Promise.all([
+      client.makeRequest('/beta/live/congresstrading', 'POST', {}, { ticker: 'AAPL' }),
+      client.makeRequest('/beta/live/congresstrading', 'POST', {}, { ticker: 'AAPL' })
+    ]));
+    this.check('non_get_not_coalesced', posts === 2 ? undefined : `${posts} upstream requests`);
+
+    this.check('one_caller_cancels', await this.checkOneCancels());
+    this.check('all_callers_cancel', await this.checkAllCancel());
+    this.check('progress_reaches_every_caller', await this.checkProgress());
+    this.check('logs_reach_every_caller', await this.checkLogs());
+    this.check('bypass_does_not_join', await this.checkBypass());
+    this.check('concurrent_tool_calls_share', await this.checkToolCalls());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} coalescing checks passed`);
+    return passed === this.results.length;
+  }
+
+  // The others still get the response, and the upstream request runs to completion
+  private async checkOneCancels(): Promise<string | undefined> {
+    const client = this.client();
+    const controller = new AbortController();
+    const abortedBefore = this.aborted;
+
+    let cancelled: any, kept: any;
+    const calls = await this.count(async () => {
+      const pending = [
+        client.makeRequest('/beta/historical/lobbying/AAPL', 'GET', {}, undefined, { signal: controller.signal }),
+        client.makeRequest('/beta/historical/lobbying/AAPL')
+      ];
+      setTimeout(() => controller.abort(), 20);
+      [cancelled, kept] = await Promise.all(pending);
+    });
+    return calls === 1 && cancelled.status === 499 && !kept.error && this.aborted === abortedBefore
+      ? undefined : `${calls} upstream requests, statuses ${cancelled.status}/${kept.status}, ${this.aborted - abortedBefore} aborted upstream`;
+  }
+
+  // The upstream request is aborted, and a caller arriving afterwards starts a new one
+  private async checkAllCancel(): Promise<string | undefined> {
+    const client = this.client();
+    const first = new AbortController();
+    const second = new AbortController();
+    const abortedBefore = this.aborted;
+
+    let statuses: number[] = [];
+    let fresh: any;
+    const calls = await this.count(async () => {
+      const pending = [
+        client.makeRequest('/beta/historical/govcontracts/AAPL', 'GET', {}, undefined, { signal: first.signal }),
+        client.makeRequest('/beta/historical/govcontracts/AAPL', 'GET', {}, undefined, { signal: second.signal })
+      ];
+      setTimeout(() => first.abort(), 20);
+      setTimeout(() => second.abort(), 30);
+      statuses = (await Promise.all(pending)).map(r => r.status);
+      fresh = await client.makeRequest('/beta/historical/govcontracts/AAPL');
+    });
+    // Let the server notice the closed connection
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return calls === 2 && statuses.every(status => status === 499) && !fresh.error && this.aborted === abortedBefore + 1
+      ? undefined : `${calls} upstream requests, statuses ${statuses.join('/')}, fresh ${fresh?.status}, ${this.aborted - abortedBefore} aborted upstream`;
+  }
+
+  private async checkProgress(): Promise<string | undefined> {
+    const client = this.client();
+    const seen: QuiverProgressEvent['stage'][][] = [[], []];
+
+    await Promise.all(seen.map(stages =>
+      client.makeRequest('/beta/live/lobbying', 'GET', {}, undefined, { onProgress: event => stages.push(event.stage) })
+    ));
+    return seen.every(stages => stages.includes('rows_parsed')) ? undefined : JSON.stringify(seen);
+  }
+
+  // The failure logged after both callers joined reaches each caller's logger, not only the first one's
+  private async checkLogs(): Promise<string | undefined> {
+    const client = this.client();
+    const seen: string[][] = [[], []];
+
+    await Promise.all(seen.map(entries =>
+      client.makeRequest('/beta/live/govcontracts', 'GET', { status: 404 }, undefined, { logger: new Logger('caller', (_level, _name, data) => entries.push(String(data))) })
+    ));
+    return seen.every(entries => entries.some(entry => entry.startsWith('API Error: 404'))) ? undefined : JSON.stringify(seen);
+  }
+
+  // cache: "bypass" asks for its own upstream request, even with an identical one in flight
+  private async checkBypass(): Promise<string | undefined> {
+    const client = this.client();
+    const calls = await this.count(() => Promise.all([
+      client.makeRequest('/beta/live/offexchange'),
+      client.makeRequest('/beta/live/offexchange', 'GET', {}, undefined, { cache: 'bypass' }),
+      client.makeRequest('/beta/live/offexchange', 'GET', {}, undefined, { cache: 'bypass' })
+    ]));
+    return calls === 2 ? undefined : `${calls} upstream requests`;
+  }
+
+  // Two sessions, each with its own QuiverClient, calling the same tool at once
+  private async checkToolCalls(): Promise<string | undefined> {
+    const sessions: Client[] = [];
+    for (let n = 0; n < 2; n++) {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await createQuiverServer(this.client()).connect(serverTransport);
+      const mcp = new Client({ name: `request-coalescing-suite-${n}`, version: '1.0.0' });
+      await mcp.connect(clientTransport);
+      sessions.push(mcp);
+    }
+
+    const calls = await this.count(() => Promise.all(sessions.map(mcp =>
+      mcp.callTool({ name: 'get_recent_congress_trading', arguments: { limit: 5 } })
+    )));
+    await Promise.all(sessions.map(mcp => mcp.close()));
+    return calls === 1 ? undefined : `${calls} upstream requests`;
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new RequestCoalescingSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Coalescing suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { ResponseCache, CacheConfig } from '../src/response-cache.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface CacheCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+const TTLS: CacheConfig['ttlMs'] = { live: 60000, bulk: 60000, historical: 60000, reference: 60000, default: 0 };
+
+class ResponseCacheSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private workDir = mkdtempSync(join(tmpdir(), 'quiver-cache-'));
+  private requests: { path: string; query: any }[] = [];
+  private results: CacheCheck[] = [];
+
+  constructor() {
+    console.log('🗄️  Response Cache Suite (TTLs, LRU limits, disk tier, bypass/refresh)\n');
+    initConfig({ env: {} });
+  }
+
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get('/beta/historical/lobbying/ZZZZ', (req, res) => {
+      this.requests.push({ path: req.path, query: req.query });
+      res.status(404).json({ message: 'Unknown ticker' });
+    });
+    app.get(/^\/beta\//, (req, res) => {
+      this.requests.push({ path: req.path, query: req.query });
+      res.json([{ Ticker: 'AAPL', Representative: 'Jane Doe', Value: this.requests.length }]);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private client(cache: ResponseCache, apiToken: string = 'cache-token'): QuiverClient {
+    return new QuiverClient({ baseUrl: this.baseUrl, apiToken, cache });
+  }
+
+  private cache(overrides: Partial<CacheConfig> = {}): ResponseCache {
+    return new ResponseCache({ enabled: true, maxEntries: 100, maxBytes: 1024 * 1024, ttlMs: TTLS, ...overrides });
+  }
+
+  // Upstream requests made while `work` runs
+  private async count(work: () => Promise<unknown>): Promise<number> {
+    const before = this.requests.length;
+    await work();
+    return this.requests.length - before;
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+
+    const shared = this.cache();
+    const client = this.client(shared);
+    const paged = await this.count(async () => {
+      for (let page = 1; page <= 5; page++) {
+        await client.getCongressHoldings();
+      }
+    });
+    this.check('repeated_reads_hit_cache', paged === 1 ? undefined : `${paged} upstream requests`);
+
+    const bypass = await this.count(() => client.getCongressHoldings({ cache: 'bypass' }));
+    const refreshed = await this.count(() => client.getCongressHoldings({ cache: 'refresh' }));
+    const afterRefresh = await client.getCongressHoldings();
+    this.check('bypass_and_refresh', bypass === 1 && refreshed === 1 && afterRefresh.data[0].Value === this.requests.length
+      ? undefined : `bypass ${bypass}, refresh ${refreshed}, cached value ${afterRefresh.data[0].Value}`);
+
+    const otherToken = await this.count(() => this.client(shared, 'other-token').getCongressHoldings());
+    this.check('tokens_do_not_share', otherToken === 1 ? undefined : `${otherToken} upstream requests`);
+
+    const uncached = await this.count(async () => {
+      await client.getTickerData('AAPL');
+      await client.getTickerData('AAPL');
+      await client.makeRequest('/beta/historical/lobbying/ZZZZ');
+      await client.makeRequest('/beta/historical/lobbying/ZZZZ');
+    });
+    this.check('errors_and_zero_ttl_not_cached', uncached === 4 ? undefined : `${uncached} upstream requests`);
+
+    const small = this.cache({ maxEntries: 2 });
+    const lru = this.client(small);
+    await lru.getCompanies('A');
+    await lru.getCompanies('B');
+    await lru.getCompanies('A'); // A is now the most recently used
+    await lru.getCompanies('C');
+    const evicted = await this.count(() => lru.getCompanies('B'));
+    const kept = await this.count(() => lru.getCompanies('C'));
+    this.check('lru_evicts_least_recent', evicted === 1 && kept === 0 && small.size.entries === 2
+      ? undefined : `B refetched ${evicted}, C refetched ${kept}, ${small.size.entries} entries`);
+
+    const diskDir = join(this.workDir, 'disk');
+    const first = this.cache({ diskDir });
+    await this.client(first).getFunds('Berkshire');
+    await first.flush();
+    const fromDisk = await this.count(() => this.client(this.cache({ diskDir })).getFunds('Berkshire'));
+    this.check('disk_tier_survives_restart', fromDisk === 0 ? undefined : `${fromDisk} upstream requests`);
+
+    this.check('tool_cache_option', await this.checkToolOption());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} cache checks passed`);
+    return passed === this.results.length;
+  }
+
+  // Raw passthrough tools forward their arguments upstream; the cache option must not go along
+  private async checkToolOption(): Promise<string | undefined> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(this.client(this.cache())).connect(serverTransport);
+    const mcp = new Client({ name: 'response-cache-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+
+    const calls = await this.count(async () => {
+      await mcp.callTool({ name: 'get_live_off_exchange', arguments: { page: 1 } });
+      await mcp.callTool({ name: 'get_live_off_exchange', arguments: { page: 1 } });
+      await mcp.callTool({ name: 'get_live_off_exchange', arguments: { page: 1, cache: 'bypass' } });
+    });
+    const last = this.requests[this.requests.length - 1];
+    await mcp.close();
+    return calls === 2 && !('cache' in last.query) ? undefined : `${calls} upstream requests, last query ${JSON.stringify(last.query)}`;
+  }
+
+  public async cleanup(): Promise<void> {
+    rmSync(this.workDir, { recursive: true, force: true });
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new ResponseCacheSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Response cache suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface SubscriptionCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+const LIVE_URI = 'quiver://live/congress-trading';
+const REFRESH_MS = 150;
+
+// A connected session and the resource updates it has been sent
+interface Session {
+  mcp: Client;
+  updates: string[];
+}
+
+class SubscriptionsSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private version = 1; // Bumped to change the live data
+  private polls: string[] = []; // Token of every upstream request, in order
+  private sessions: Session[] = [];
+  private results: SubscriptionCheck[] = [];
+
+  constructor() {
+    console.log('🔔 Subscriptions Suite (resources/subscribe, background refresh, notifications/resources/updated)\n');
+    initConfig({ env: { RESOURCE_REFRESH_MS: String(REFRESH_MS) } });
+  }
+
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get(/^\/beta\//, (req, res) => {
+      this.polls.push(String(req.header('authorization')));
+      res.json([{ Ticker: 'AAPL', Representative: 'Jane Doe', Version: this.version }]);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  // A session with its own QuiverClient, as the HTTP server builds one per session
+  private async connect(apiToken: string): Promise<Session> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(new QuiverClient({ baseUrl: this.baseUrl, apiToken })).connect(serverTransport);
+    const mcp = new Client({ name: 'subscriptions-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+
+    const session: Session = { mcp, updates: [] };
+    mcp.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      session.updates.push(notification.params.uri);
+    });
+    this.sessions.push(session);
+    return session;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+
+    const first = await this.connect('token-a');
+    const second = await this.connect('token-a');
+    const other = await this.connect('token-b');
+    await Promise.all([first, other].map(session => session.mcp.subscribeResource({ uri: LIVE_URI })));
+    // Half an interval later, so separate refresh timers could not be coalesced into one request
+    await this.wait(REFRESH_MS / 2);
+    await second.mcp.subscribeResource({ uri: LIVE_URI });
+
+    // Baseline and a few unchanged refreshes: nothing to announce
+    await this.wait(REFRESH_MS * 2.5);
+    const unchanged = [first, second, other].map(session => session.updates.length);
+    this.check('unchanged_data_not_announced', unchanged.every(count => count === 0) ? undefined : `updates ${unchanged.join('/')}`);
+
+    // Sessions on the same token share one refresh; another token polls on its own
+    const tokenA = this.polls.filter(token => token === 'Token token-a').length;
+    const tokenB = this.polls.filter(token => token === 'Token token-b').length;
+    this.check('one_refresh_per_token', tokenA > 0 && Math.abs(tokenA - tokenB) <= 1 ? undefined : `token-a polled ${tokenA} times, token-b ${tokenB}`);
+
+    this.version++;
+    await this.wait(REFRESH_MS * 1.5);
+    this.check('change_announced_to_every_subscriber', [first, second, other].every(session => session.updates.join() === LIVE_URI)
+      ? undefined : [first, second, other].map(session => session.updates.join() || 'none').join(' / '));
+
+    // The shared watch keeps refreshing for the remaining subscriber
+    await first.mcp.unsubscribeResource({ uri: LIVE_URI });
+    this.version++;
+    await this.wait(REFRESH_MS * 1.5);
+    this.check('unsubscribe_stops_updates', first.updates.length === 1 && second.updates.length === 2
+      ? undefined : `unsubscribed ${first.updates.length}, still subscribed ${second.updates.length}`);
+
+    // Closing the last sessions stops polling altogether
+    await second.mcp.close();
+    await other.mcp.close();
+    await this.wait(REFRESH_MS);
+    const pollsAfterClose = this.polls.length;
+    await this.wait(REFRESH_MS * 2);
+    this.check('polling_stops_without_subscribers', this.polls.length === pollsAfterClose ? undefined : `${this.polls.length - pollsAfterClose} polls after close`);
+
+    let rejected = '';
+    try {
+      await first.mcp.subscribeResource({ uri: 'quiver://reference/response-modes' });
+    } catch (error) {
+      rejected = error instanceof Error ? error.message : String(error);
+    }
+    this.check('static_resource_not_subscribable', rejected.includes('does not support subscriptions') ? undefined : `error: ${rejected || 'none'}`);
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} subscription checks passed`);
+    return passed === this.results.length;
+  }
+
+  public async cleanup(): Promise<void> {
+    await Promise.all(this.sessions.map(session => session.mcp.close()));
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new SubscriptionsSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Subscriptions suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
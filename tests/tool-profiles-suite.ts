@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { JSONRPCMessage, LATEST_PROTOCOL_VERSION, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { createQuiverServer, isKnownToolProfile, QuiverServerOptions } from '../src/server.js';
+import { ConfigError, initConfig } from '../src/config.js';
+import { quiverTools } from '../src/tools.js';
+
+interface ProfileCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+// A configured profile next to the built-in ones
+const CONFIG_FILE = `tools:
+  profiles:
+    research:
+      categories: [lobbying]
+      tools: [get_companies]
+      exclude: [get_historical_lobbying]
+`;
+
+class ToolProfilesSuite {
+  private workDir = mkdtempSync(join(tmpdir(), 'quiver-profiles-'));
+  // Calls never reach the network: hidden tools are rejected first
+  private quiverClient = new QuiverClient({ baseUrl: 'http://127.0.0.1:1', apiToken: 'profiles-token' });
+  private results: ProfileCheck[] = [];
+
+  constructor() {
+    console.log('🧰 Tool Profiles Suite (filtering, hidden tools, per-session switching)\n');
+    const path = join(this.workDir, 'config.yaml');
+    writeFileSync(path, CONFIG_FILE);
+    initConfig({ path, env: {} });
+  }
+
+  private async connect(options: QuiverServerOptions = {}): Promise<{ client: Client; changes: number[] }> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(this.quiverClient, options).connect(serverTransport);
+
+    const client = new Client({ name: 'tool-profiles-suite', version: '1.0.0' });
+    const changes: number[] = [];
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      changes.push(Date.now());
+    });
+    await client.connect(clientTransport);
+    return { client, changes };
+  }
+
+  private async toolNames(client: Client): Promise<string[]> {
+    return (await client.listTools()).tools.map(tool => tool.name).sort();
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  private async expectError(promise: Promise<unknown>, fragment: string): Promise<string | undefined> {
+    try {
+      await promise;
+      return 'request succeeded';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return message.includes(fragment) ? undefined : `unexpected error: ${message}`;
+    }
+  }
+
+  public async run(): Promise<boolean> {
+    const full = await this.connect();
+    const allNames = await this.toolNames(full.client);
+    this.check('full_profile_lists_everything', allNames.length === quiverTools.length ? undefined : `listed ${allNames.length} of ${quiverTools.length}`);
+
+    const congress = await this.connect({ toolProfile: 'congress' });
+    const congressNames = await this.toolNames(congress.client);
+    const expected = quiverTools.filter(tool => tool.category === 'congress').map(tool => tool.name).sort();
+    this.check('builtin_profile_filters_list', congressNames.join() === expected.join() ? undefined : `listed ${congressNames.join(', ')}`);
+
+    this.check('hidden_tool_rejected', await this.expectError(
+      congress.client.callTool({ name: 'get_companies', arguments: {} }),
+      'Tool get_companies is not available in the "congress" tool profile'
+    ));
+
+    const research = await this.connect({ toolProfile: 'research' });
+    const researchNames = await this.toolNames(research.client);
+    const researchExpected = quiverTools
+      .filter(tool => (tool.category === 'lobbying' || tool.name === 'get_companies') && tool.name !== 'get_historical_lobbying')
+      .map(tool => tool.name).sort();
+    this.check('configured_profile_filters_list', researchNames.join() === researchExpected.join() ? undefined : `listed ${researchNames.join(', ')}`);
+
+    const result = await congress.client.request({ method: 'quiver/setToolProfile', params: { profile: 'lobbying' } }, z.object({ profile: z.string() }));
+    await new Promise(resolve => setImmediate(resolve));
+    const lobbyingNames = await this.toolNames(congress.client);
+    this.check('switch_sends_list_changed', congress.changes.length === 1 && result.profile === 'lobbying' && lobbyingNames.every(name => name.includes('lobbying'))
+      ? undefined : `${congress.changes.length} notification(s), listed ${lobbyingNames.join(', ')}`);
+
+    this.check('unknown_profile_rejected', await this.expectError(
+      congress.client.request({ method: 'quiver/setToolProfile', params: { profile: 'everything' } }, z.object({ profile: z.string() })),
+      'Unknown tool profile "everything"'
+    ));
+
+    this.check('profile_from_initialize_meta', await this.checkInitializeMeta());
+
+    this.check('prototype_names_unknown', await this.checkPrototypeNames(congress.client));
+
+    await Promise.all([full, congress, research].map(({ client }) => client.close()));
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} tool profile checks passed`);
+    return passed === this.results.length;
+  }
+
+  // Names inherited from Object.prototype are not profiles, wherever a profile name is accepted
+  private async checkPrototypeNames(client: Client): Promise<string | undefined> {
+    const names = ['constructor', 'toString', '__proto__', 'hasOwnProperty'];
+    const known = names.filter(name => isKnownToolProfile(name));
+    if (known.length > 0) {
+      return `isKnownToolProfile accepted ${known.join(', ')}`;
+    }
+
+    for (const name of names) {
+      const error = await this.expectError(
+        client.request({ method: 'quiver/setToolProfile', params: { profile: name } }, z.object({ profile: z.string() })),
+        `Unknown tool profile "${name}"`
+      );
+      if (error) {
+        return `quiver/setToolProfile ${name}: ${error}`;
+      }
+    }
+
+    for (const name of names) {
+      try {
+        initConfig({ env: { QUIVER_TOOL_PROFILE: name } });
+        return `config accepted profile ${name}`;
+      } catch (error) {
+        if (!(error instanceof ConfigError) || !error.message.includes(`Unknown tool profile "${name}"`)) {
+          return `config ${name}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // The SDK client cannot add _meta to initialize, so this exchange is written by hand
+  private async checkInitializeMeta(): Promise<string | undefined> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const server = createQuiverServer(this.quiverClient);
+    await server.connect(serverTransport);
+
+    const replies = new Map<number, any>();
+    clientTransport.onmessage = (message: JSONRPCMessage) => {
+      if ('id' in message && typeof message.id === 'number') {
+        replies.set(message.id, message);
+      }
+    };
+    await clientTransport.start();
+
+    await clientTransport.send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'tool-profiles-suite', version: '1.0.0' },
+        _meta: { 'quiver/toolProfile': 'market' }
+      }
+    });
+    await clientTransport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    await clientTransport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const listed: string[] = replies.get(2)?.result?.tools?.map((tool: any) => tool._meta['quiver/category']) || [];
+    await server.close();
+    return listed.length > 0 && listed.every(category => category === 'market') ? undefined : `got ${JSON.stringify(replies.get(2))}`;
+  }
+
+  public cleanup() {
+    rmSync(this.workDir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const suite = new ToolProfilesSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Tool profiles suite failed:', error);
+  } finally {
+    suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
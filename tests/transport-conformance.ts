@@ -0,0 +1,378 @@
+#!/usr/bin/env node
+
+import axios from 'axios';
+import express from 'express';
+import { spawn, ChildProcess } from 'child_process';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+
+interface ConformanceCase {
+  name: string;
+  method: string;
+  params?: Record<string, any>;
+}
+
+interface ConformanceResult {
+  testCase: string;
+  success: boolean;
+  error?: string;
+}
+
+type Exchange = (request: ConformanceCase) => Promise<string>;
+
+// Keeps results exactly as the server sent them, so comparisons are byte-for-byte
+const RawResultSchema = z.object({}).passthrough();
+
+// Sent by every client; the HTTP server itself has no QUIVER_API_TOKEN
+const API_TOKEN = 'conformance-token';
+const TOKEN_HEADERS = { 'X-Quiver-Token': API_TOKEN };
+
+// Fixture rows served by the stub upstream in place of QuiverAPI
+const FIXTURES: Record<string, any[]> = {
+  '/beta/companies': [
+    { ticker: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', market_cap: 3000000000000 },
+    { ticker: 'MSFT', name: 'Microsoft Corporation', exchange: 'NASDAQ', market_cap: 2800000000000 },
+    { ticker: 'LMT', name: 'Lockheed Martin, Corp.', exchange: 'NYSE', market_cap: 110000000000 }
+  ],
+  '/beta/live/congresstrading': [
+    { ticker: 'NVDA', representative: 'Jane Doe', transaction_date: '2024-05-01', amount: '$1,001 - $15,000', transaction_type: 'Purchase' },
+    { ticker: 'AAPL', representative: 'John Roe', transaction_date: '2024-04-28', amount: '$15,001 - $50,000', transaction_type: 'Sale' }
+  ],
+  '/beta/bulk/congresstrading': [
+    { ticker: 'NVDA', representative: 'Jane Doe', transaction_date: '2024-05-01', amount: '$1,001 - $15,000', transaction_type: 'Purchase' }
+  ],
+  '/beta/historical/govcontracts/LMT': [
+    { ticker: 'LMT', amount: 1250000, date: '2024-03-31', description: 'Aircraft sustainment' }
+  ],
+  // Answered after SLOW_UPSTREAM_MS, so batched calls can be seen overlapping
+  '/beta/historical/lobbying/SLOWA': [
+    { ticker: 'SLOWA', client: 'Slow Co.', amount: 50000, date: '2024-02-01' }
+  ],
+  '/beta/historical/lobbying/SLOWB': [
+    { ticker: 'SLOWB', client: 'Slow Co.', amount: 60000, date: '2024-02-02' }
+  ]
+};
+
+const SLOW_UPSTREAM_MS = 200;
+
+class TransportConformanceSuite {
+  private upstream?: HttpServer;
+  private httpServer?: ChildProcess;
+  private clients: Client[] = [];
+  private results: ConformanceResult[] = [];
+  private upstreamInFlight = 0;
+  private maxUpstreamInFlight = 0;
+
+  constructor(private httpPort: number = 3901) {
+    console.log('🔁 Transport Conformance Suite (stdio vs Streamable HTTP vs legacy SSE vs /message)\n');
+  }
+
+  private getCases(): ConformanceCase[] {
+    return [
+      { name: 'tools_list', method: 'tools/list' },
+      { name: 'tools_list_by_category', method: 'tools/list', params: { category: ['lobbying', 'contracts'] } },
+      { name: 'tools_list_unknown_category', method: 'tools/list', params: { category: 'crypto' } },
+      { name: 'prompts_list', method: 'prompts/list' },
+      { name: 'prompts_get', method: 'prompts/get', params: { name: 'company-deep-dive', arguments: { ticker: 'AAPL' } } },
+      { name: 'resources_list', method: 'resources/list' },
+      { name: 'resources_read', method: 'resources/read', params: { uri: 'quiver://reference/response-modes' } },
+      { name: 'resources_read_live', method: 'resources/read', params: { uri: 'quiver://live/congress-trading' } },
+      { name: 'resource_templates_list', method: 'resources/templates/list' },
+      { name: 'resources_read_template', method: 'resources/read', params: { uri: 'quiver://ticker/lmt/contracts' } },
+      { name: 'resources_read_representative', method: 'resources/read', params: { uri: 'quiver://representative/Jane%20Doe/trades' } },
+      { name: 'resources_subscribe_static', method: 'resources/subscribe', params: { uri: 'quiver://reference/response-modes' } },
+      { name: 'complete_ticker', method: 'completion/complete', params: { ref: { type: 'ref/prompt', name: 'company-deep-dive' }, argument: { name: 'ticker', value: 'a' } } },
+      { name: 'complete_representative', method: 'completion/complete', params: { ref: { type: 'ref/resource', uri: 'quiver://representative/{name}/trades' }, argument: { name: 'name', value: 'jan' } } },
+      { name: 'complete_focus_areas', method: 'completion/complete', params: { ref: { type: 'ref/prompt', name: 'company-deep-dive' }, argument: { name: 'focus_areas', value: 'trading, lo' } } },
+      { name: 'tool_detailed_json', method: 'tools/call', params: { name: 'get_companies', arguments: { limit: 2 } } },
+      { name: 'tool_compact', method: 'tools/call', params: { name: 'get_recent_congress_trading', arguments: { mode: 'compact' } } },
+      { name: 'tool_summary', method: 'tools/call', params: { name: 'get_recent_congress_trading', arguments: { mode: 'summary' } } },
+      { name: 'tool_csv', method: 'tools/call', params: { name: 'get_companies', arguments: { format: 'csv' } } },
+      { name: 'tool_raw_passthrough', method: 'tools/call', params: { name: 'get_historical_gov_contracts', arguments: { ticker: 'LMT' } } },
+      { name: 'tool_upstream_error', method: 'tools/call', params: { name: 'get_historical_lobbying', arguments: { ticker: 'ZZZZ' } } },
+      { name: 'tool_unknown', method: 'tools/call', params: { name: 'no_such_tool', arguments: {} } }
+    ];
+  }
+
+  private async startUpstream(): Promise<string> {
+    const app = express();
+    app.get(/^\/beta\//, (req, res) => {
+      // Every transport must reach QuiverAPI with the caller's own token
+      if (req.header('authorization') !== `Token ${API_TOKEN}`) {
+        res.status(401).json({ message: 'Invalid token' });
+        return;
+      }
+
+      const rows = FIXTURES[req.path];
+      if (!rows) {
+        res.status(404).json({ message: `No fixture for ${req.path}` });
+        return;
+      }
+
+      this.upstreamInFlight++;
+      this.maxUpstreamInFlight = Math.max(this.maxUpstreamInFlight, this.upstreamInFlight);
+      setTimeout(() => {
+        this.upstreamInFlight--;
+        res.json(rows);
+      }, req.path.includes('/SLOW') ? SLOW_UPSTREAM_MS : 0);
+    });
+
+    return new Promise(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        const { port } = this.upstream!.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      });
+    });
+  }
+
+  private async startHttpServer(env: NodeJS.ProcessEnv): Promise<void> {
+    this.httpServer = spawn(process.execPath, ['--import', 'tsx', 'src/server-http.ts'], {
+      env: { ...env, PORT: String(this.httpPort) },
+      stdio: 'ignore'
+    });
+
+    const deadline = Date.now() + 30000;
+    while (Date.now() < deadline) {
+      try {
+        await axios.get(`http://127.0.0.1:${this.httpPort}/health`, { timeout: 1000 });
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+    throw new Error('HTTP server did not become healthy within 30s');
+  }
+
+  private record(testCase: string, error?: string): void {
+    console.log(`${error ? '❌' : '✅'} ${testCase}${error ? ` - ${error}` : ''}`);
+    this.results.push({ testCase, success: !error, error });
+  }
+
+  private postMessage(body: unknown, headers: Record<string, string> = {}) {
+    return axios.post(`http://127.0.0.1:${this.httpPort}/message`, body, {
+      headers: { ...TOKEN_HEADERS, 'Content-Type': 'application/json', ...headers },
+      validateStatus: () => true,
+      // Send string bodies exactly as written, malformed or not
+      transformRequest: [(data: unknown) => typeof data === 'string' ? data : JSON.stringify(data)]
+    });
+  }
+
+  /**
+   * Without QUIVER_TOKEN_FALLBACK, callers that bring no token are turned away
+   */
+  private async checkTokenRequired(): Promise<void> {
+    const response = await axios.post(`http://127.0.0.1:${this.httpPort}/message`, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/list'
+    }, { validateStatus: () => true });
+
+    this.record('token_required', response.status === 401 ? undefined : `expected 401, got ${response.status}`);
+  }
+
+  /**
+   * JSON-RPC semantics of /message that the SDK transports have no
+   * counterpart for: parse errors, notifications and batches.
+   */
+  private async checkMessageSemantics(): Promise<void> {
+    const malformed = await this.postMessage('{"jsonrpc": "2.0", "id": 1,');
+    this.record('malformed_json_parse_error', malformed.status === 400 && malformed.data?.error?.code === -32700 && malformed.data.id === null
+      ? undefined : `${malformed.status} ${JSON.stringify(malformed.data)}`);
+
+    const notification = await this.postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    this.record('notification_no_reply', notification.status === 202 && notification.data === ''
+      ? undefined : `${notification.status} ${JSON.stringify(notification.data)}`);
+
+    const empty = await this.postMessage([]);
+    this.record('empty_batch_invalid_request', empty.data?.error?.code === -32600 && empty.data.id === null
+      ? undefined : `${empty.status} ${JSON.stringify(empty.data)}`);
+
+    // One reply per request, in order; notifications get none and bad entries fail alone
+    const batch = await this.postMessage([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'no/such/method' },
+      { id: 3, method: 'ping' },
+      { jsonrpc: '2.0', id: 4, method: 'tools/list' }
+    ]);
+    const replies: any[] = Array.isArray(batch.data) ? batch.data : [];
+    const shape = replies.map(reply => `${reply.id}:${reply.error ? reply.error.code : 'result'}`).join(',');
+    this.record('batch_replies', batch.status === 200 && shape === '1:result,2:-32601,3:-32600,4:result' &&
+      Array.isArray(replies[3]?.result?.tools) ? undefined : `${batch.status} ${shape || JSON.stringify(batch.data)}`);
+
+    const onlyNotifications = await this.postMessage([{ jsonrpc: '2.0', method: 'notifications/initialized' }]);
+    this.record('batch_of_notifications_no_reply', onlyNotifications.status === 202
+      ? undefined : `${onlyNotifications.status} ${JSON.stringify(onlyNotifications.data)}`);
+
+    // Both calls wait on a slow upstream; run one after the other they would take twice as long
+    this.maxUpstreamInFlight = 0;
+    const started = Date.now();
+    const slow = await this.postMessage([
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'get_historical_lobbying', arguments: { ticker: 'SLOWA' } } },
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'get_historical_lobbying', arguments: { ticker: 'SLOWB' } } }
+    ]);
+    const elapsed = Date.now() - started;
+    const slowReplies: any[] = Array.isArray(slow.data) ? slow.data : [];
+    this.record('batch_runs_concurrently', slowReplies.length === 2 && slowReplies.every(reply => reply.result && !reply.result.isError) &&
+      this.maxUpstreamInFlight === 2 && elapsed < 2 * SLOW_UPSTREAM_MS
+      ? undefined : `${slowReplies.length} replies, ${this.maxUpstreamInFlight} upstream calls overlapped, ${elapsed}ms`);
+  }
+
+  /**
+   * Protocol revision negotiation: unsupported versions are rejected with
+   * -32602, and capabilities follow the revision the client asked for.
+   */
+  private async checkProtocolVersions(): Promise<void> {
+    const initialize = (protocolVersion: string) => this.postMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion, capabilities: {}, clientInfo: { name: 'conformance-suite', version: '1.0.0' } }
+    });
+
+    const unsupported = await initialize('2023-01-01');
+    const error = unsupported.data?.error;
+    this.record('initialize_unsupported_version', error?.code === -32602 && error.message.includes('2025-06-18')
+      ? undefined : JSON.stringify(unsupported.data));
+
+    const latest = (await initialize('2025-06-18')).data?.result;
+    this.record('initialize_negotiates_version', latest?.protocolVersion === '2025-06-18' && latest.serverInfo?.name === 'quiver-mcp-server' &&
+      typeof latest.instructions === 'string' && latest.capabilities?.completions !== undefined
+      ? undefined : JSON.stringify(latest)?.slice(0, 200));
+
+    // Completions arrived in 2025-03-26, so older clients are not offered them
+    const legacy = (await initialize('2024-11-05')).data?.result;
+    this.record('initialize_gates_capabilities', legacy?.protocolVersion === '2024-11-05' && legacy.capabilities?.completions === undefined &&
+      legacy.capabilities?.tools !== undefined ? undefined : JSON.stringify(legacy?.capabilities));
+
+    const header = await this.postMessage({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'MCP-Protocol-Version': '2023-01-01' });
+    this.record('unsupported_version_header', header.status === 400 && header.data?.error?.code === -32600
+      ? undefined : `${header.status} ${JSON.stringify(header.data)}`);
+  }
+
+  private async connectClient(transport: StdioClientTransport | StreamableHTTPClientTransport | SSEClientTransport): Promise<Exchange> {
+    const client = new Client({ name: 'conformance-suite', version: '1.0.0' });
+    await client.connect(transport);
+    this.clients.push(client);
+
+    return async ({ method, params }) => {
+      try {
+        return JSON.stringify(await client.request({ method, params }, RawResultSchema));
+      } catch (error) {
+        return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+  }
+
+  private messageExchange(): Exchange {
+    let nextId = 1;
+    return async ({ method, params }) => {
+      // The stateless endpoint never sees initialize; pin the revision the SDK clients negotiate
+      const response = await axios.post(`http://127.0.0.1:${this.httpPort}/message`, {
+        jsonrpc: '2.0',
+        id: nextId++,
+        method,
+        params
+      }, {
+        headers: { ...TOKEN_HEADERS, 'MCP-Protocol-Version': LATEST_PROTOCOL_VERSION }
+      });
+      if (response.data.error) {
+        return JSON.stringify({ error: `MCP error ${response.data.error.code}: ${response.data.error.message}` });
+      }
+      return JSON.stringify(response.data.result);
+    };
+  }
+
+  public async run(): Promise<boolean> {
+    const baseUrl = await this.startUpstream();
+    const env = {
+      ...process.env,
+      QUIVER_API_TOKEN: API_TOKEN,
+      QUIVER_BASE_URL: baseUrl
+    } as Record<string, string>;
+
+    const { QUIVER_API_TOKEN, QUIVER_TOKEN_FALLBACK, ...httpEnv } = env;
+    await this.startHttpServer(httpEnv);
+    await this.checkTokenRequired();
+    await this.checkMessageSemantics();
+    await this.checkProtocolVersions();
+
+    const stdio = await this.connectClient(new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', 'src/index.ts'],
+      env,
+      stderr: 'ignore'
+    }));
+    const streamable = await this.connectClient(
+      new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${this.httpPort}/mcp`), {
+        requestInit: { headers: TOKEN_HEADERS }
+      })
+    );
+    const sse = await this.connectClient(
+      new SSEClientTransport(new URL(`http://127.0.0.1:${this.httpPort}/sse`), {
+        requestInit: { headers: TOKEN_HEADERS }
+      })
+    );
+    const legacy = this.messageExchange();
+
+    for (const testCase of this.getCases()) {
+      const [viaStdio, viaStreamable, viaSse, viaLegacy] = await Promise.all([
+        stdio(testCase),
+        streamable(testCase),
+        sse(testCase),
+        legacy(testCase)
+      ]);
+
+      const mismatches: string[] = [];
+      if (viaStreamable !== viaStdio) mismatches.push('streamable http');
+      if (viaSse !== viaStdio) mismatches.push('legacy sse');
+      if (viaLegacy !== viaStdio) mismatches.push('/message');
+
+      if (mismatches.length === 0) {
+        console.log(`✅ ${testCase.name}`);
+        this.results.push({ testCase: testCase.name, success: true });
+      } else {
+        const error = `differs from stdio on: ${mismatches.join(', ')}`;
+        console.log(`❌ ${testCase.name} - ${error}`);
+        console.log(`   stdio: ${viaStdio.slice(0, 200)}`);
+        this.results.push({ testCase: testCase.name, success: false, error });
+      }
+    }
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} conformance checks passed`);
+    return passed === this.results.length;
+  }
+
+  public async cleanup(): Promise<void> {
+    await Promise.all(this.clients.map(client => client.close()));
+    this.httpServer?.kill();
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const suite = new TransportConformanceSuite(port);
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Conformance suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { QuiverClient } from '../src/quiver-client.js';
+import { UpstreamLimiter, UpstreamLimitsConfig, resolveTierLimits } from '../src/upstream-limiter.js';
+import { initConfig } from '../src/config.js';
+
+interface LimiterCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+class UpstreamLimiterSuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private served: string[] = []; // Request tags in the order upstream saw them
+  private inFlight = 0;
+  private maxInFlight = 0;
+  private results: LimiterCheck[] = [];
+
+  constructor() {
+    console.log('🚦 Upstream Limiter Suite (tiers, concurrency, priorities, family budgets, metrics)\n');
+    initConfig({ env: {} });
+  }
+
+  // Every endpoint answers after ?delay ms and records ?tag on arrival
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    app.get(/^\/beta\//, (req, res) => {
+      this.served.push(String(req.query.tag || req.path));
+      this.inFlight++;
+      this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+      setTimeout(() => {
+        this.inFlight--;
+        res.json([{ tag: req.query.tag }]);
+      }, Number(req.query.delay || 50));
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  // A single custom tier with the given limits
+  private limiter(limits: UpstreamLimitsConfig['tiers'][string]): UpstreamLimiter {
+    return new UpstreamLimiter({ enabled: true, tier: 'test', tiers: { test: { requestsPerMinute: 0, maxConcurrent: 0, ...limits } } });
+  }
+
+  private client(limiter: UpstreamLimiter, apiToken: string = 'limiter-token'): QuiverClient {
+    return new QuiverClient({ baseUrl: this.baseUrl, apiToken, limiter });
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+
+    const tier1 = resolveTierLimits({ enabled: true, tier: 'tier1', tiers: { tier1: { maxConcurrent: 6, families: { bulk: { requestsPerMinute: 4 } } } } });
+    this.check('tier_presets_merge_overrides', tier1.requestsPerMinute === 120 && tier1.maxConcurrent === 6 &&
+      tier1.families.bulk?.requestsPerMinute === 4 && tier1.families.bulk?.maxConcurrent === 1 ? undefined : JSON.stringify(tier1));
+
+    let unknownTier = '';
+    try {
+      initConfig({ env: { QUIVER_TIER: 'platinum' } });
+    } catch (error) {
+      unknownTier = error instanceof Error ? error.message : String(error);
+    } finally {
+      initConfig({ env: {} });
+    }
+    this.check('unknown_tier_rejected', unknownTier.includes('platinum') && unknownTier.includes('tier2') ? undefined : `error: ${unknownTier || 'none'}`);
+
+    this.check('concurrency_capped', await this.checkConcurrency());
+    this.check('requests_per_minute_budget', await this.checkRequestsPerMinute());
+    this.check('priority_order', await this.checkPriorities());
+    this.check('joining_caller_raises_priority', await this.checkJoinedPriority());
+    this.check('family_budget_does_not_block_others', await this.checkFamilyBudget());
+    this.check('tokens_have_separate_budgets', await this.checkTokens());
+    this.check('abort_while_queued', await this.checkAbort());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} limiter checks passed`);
+    return passed === this.results.length;
+  }
+
+  private async checkConcurrency(): Promise<string | undefined> {
+    const limiter = this.limiter({ maxConcurrent: 2 });
+    const client = this.client(limiter);
+    this.maxInFlight = 0;
+
+    const responses = await Promise.all([1, 2, 3, 4, 5].map(n => client.makeRequest('/beta/live/quotes', 'GET', { tag: n, delay: 80 })));
+    const metrics = limiter.metrics();
+    return this.maxInFlight === 2 && responses.every(r => !r.error) && metrics.served === 5 && metrics.delayed === 3 &&
+      metrics.maxQueueDepth === 3 && metrics.averageWaitMs > 0 && metrics.active === 0 && metrics.queued === 0
+      ? undefined : `max in flight ${this.maxInFlight}, metrics ${JSON.stringify(metrics)}`;
+  }
+
+  // The bucket holds one minute's worth, so the request after that waits for a refill
+  private async checkRequestsPerMinute(): Promise<string | undefined> {
+    const limiter = this.limiter({ requestsPerMinute: 120 });
+    for (let n = 0; n < 120; n++) {
+      (await limiter.acquire('rpm-token', '/beta/live/quotes', 'interactive'))();
+    }
+    const started = Date.now();
+    (await limiter.acquire('rpm-token', '/beta/live/quotes', 'interactive'))();
+    const waited = Date.now() - started;
+    return waited >= 400 && waited < 1000 ? undefined : `121st request waited ${waited}ms`;
+  }
+
+  private async checkPriorities(): Promise<string | undefined> {
+    const limiter = this.limiter({ maxConcurrent: 1 });
+    const client = this.client(limiter);
+    this.served = [];
+
+    // The first request holds the only slot while the rest queue up
+    const requests = [
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'first', delay: 100 }),
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'background' }, undefined, { priority: 'background' }),
+      client.makeRequest('/beta/bulk/congresstrading', 'GET', { tag: 'bulk' }),
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'interactive' })
+    ];
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const queued = limiter.metrics().queuedByPriority;
+    await Promise.all(requests);
+
+    const expected = ['first', 'interactive', 'bulk', 'background'];
+    return this.served.join() === expected.join() && queued.interactive === 1 && queued.bulk === 1 && queued.background === 1
+      ? undefined : `served ${this.served.join(', ')}, queued ${JSON.stringify(queued)}`;
+  }
+
+  // An interactive caller joining a queued background request moves it ahead of a queued bulk one
+  private async checkJoinedPriority(): Promise<string | undefined> {
+    const limiter = this.limiter({ maxConcurrent: 1 });
+    const client = this.client(limiter);
+    this.served = [];
+
+    const requests = [
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'first', delay: 100 }),
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'joined' }, undefined, { priority: 'background' }),
+      client.makeRequest('/beta/bulk/congresstrading', 'GET', { tag: 'bulk' })
+    ];
+    await new Promise(resolve => setTimeout(resolve, 20));
+    requests.push(client.makeRequest('/beta/live/quotes', 'GET', { tag: 'joined' }));
+    const queued = limiter.metrics().queuedByPriority;
+    await Promise.all(requests);
+
+    return this.served.join() === 'first,joined,bulk' && queued.interactive === 1 && queued.background === 0
+      ? undefined : `served ${this.served.join(', ')}, queued ${JSON.stringify(queued)}`;
+  }
+
+  private async checkFamilyBudget(): Promise<string | undefined> {
+    const client = this.client(this.limiter({ maxConcurrent: 4, families: { bulk: { maxConcurrent: 1 } } }));
+    this.served = [];
+
+    await Promise.all([
+      client.makeRequest('/beta/bulk/congresstrading', 'GET', { tag: 'bulk-1', delay: 100 }),
+      client.makeRequest('/beta/bulk/congresstrading', 'GET', { tag: 'bulk-2' }),
+      client.makeRequest('/beta/live/quotes', 'GET', { tag: 'live' }, undefined, { priority: 'background' })
+    ]);
+    return this.served.join() === 'bulk-1,live,bulk-2' ? undefined : `served ${this.served.join(', ')}`;
+  }
+
+  private async checkTokens(): Promise<string | undefined> {
+    const limiter = this.limiter({ maxConcurrent: 1 });
+    this.maxInFlight = 0;
+
+    await Promise.all([
+      this.client(limiter, 'token-a').makeRequest('/beta/live/quotes', 'GET', { tag: 'a', delay: 80 }),
+      this.client(limiter, 'token-b').makeRequest('/beta/live/quotes', 'GET', { tag: 'b', delay: 80 })
+    ]);
+    return this.maxInFlight === 2 && limiter.metrics().delayed === 0 ? undefined : `max in flight ${this.maxInFlight}`;
+  }
+
+  private async checkAbort(): Promise<string | undefined> {
+    const limiter = this.limiter({ maxConcurrent: 1 });
+    const client = this.client(limiter);
+    const controller = new AbortController();
+    this.served = [];
+
+    const holding = client.makeRequest('/beta/live/quotes', 'GET', { tag: 'holding', delay: 100 });
+    const cancelled = client.makeRequest('/beta/live/quotes', 'GET', { tag: 'cancelled' }, undefined, { signal: controller.signal });
+    const after = client.makeRequest('/beta/live/quotes', 'GET', { tag: 'after' });
+    setTimeout(() => controller.abort(), 20);
+
+    const [, response] = await Promise.all([holding, cancelled, after]);
+    const metrics = limiter.metrics();
+    return response.status === 499 && this.served.join() === 'holding,after' && metrics.queued === 0 && metrics.served === 2
+      ? undefined : `status ${response.status}, served ${this.served.join(', ')}, metrics ${JSON.stringify(metrics)}`;
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new UpstreamLimiterSuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Limiter suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
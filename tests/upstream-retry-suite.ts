@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { QuiverClient } from '../src/quiver-client.js';
+import { RetryConfig, parseRetryAfter } from '../src/retry.js';
+import { createQuiverServer } from '../src/server.js';
+import { initConfig } from '../src/config.js';
+
+interface RetryCheck {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+// Short delays keep the suite fast; the backoff shape is the same
+const POLICY: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 10,
+  maxDelayMs: 50,
+  maxRetryAfterMs: 2000,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+  retryTimeouts: true,
+  retryNetworkErrors: true,
+  families: {}
+};
+
+class UpstreamRetrySuite {
+  private upstream?: HttpServer;
+  private baseUrl = '';
+  private hits = new Map<string, number>();
+  private results: RetryCheck[] = [];
+
+  constructor() {
+    console.log('🔁 Upstream Retry Suite (backoff, Retry-After, timeouts, attempt counts)\n');
+    initConfig({ env: {} });
+  }
+
+  // Answers with `failures` errors before succeeding; counts requests per path
+  private async startUpstream(): Promise<void> {
+    const app = express();
+    const count = (path: string) => {
+      const hits = (this.hits.get(path) || 0) + 1;
+      this.hits.set(path, hits);
+      return hits;
+    };
+
+    app.get('/beta/live/flaky', (req, res) => {
+      count(req.path) <= 2 ? res.status(502).json({ message: 'Bad gateway' }) : res.json([{ ok: true }]);
+    });
+    app.get('/beta/live/throttled', (req, res) => {
+      count(req.path) === 1 ? res.status(429).set('Retry-After', '1').json({ message: 'Slow down' }) : res.json([{ ok: true }]);
+    });
+    app.get('/beta/live/throttled-long', (req, res) => {
+      count(req.path);
+      res.status(503).set('Retry-After', '120').json({ message: 'Maintenance' });
+    });
+    app.get('/beta/live/missing', (req, res) => {
+      count(req.path);
+      res.status(404).json({ message: 'Not found' });
+    });
+    app.get('/beta/live/slow', (req, res) => {
+      count(req.path);
+      setTimeout(() => res.json([]), 300);
+    });
+    app.get('/beta/bulk/flaky', (req, res) => {
+      count(req.path);
+      res.status(500).json({ message: 'Server error' });
+    });
+    app.post('/beta/live/flaky-post', (req, res) => {
+      count(req.path);
+      res.status(502).json({ message: 'Bad gateway' });
+    });
+    app.get('/beta/live/offexchange', (req, res) => {
+      count(req.path) === 1 ? res.status(503).json({ message: 'Unavailable' }) : res.json([{ Ticker: 'AAPL', OTC_Short: 1 }]);
+    });
+
+    await new Promise<void>(resolve => {
+      this.upstream = app.listen(0, '127.0.0.1', () => {
+        this.baseUrl = `http://127.0.0.1:${(this.upstream!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  private client(retry: RetryConfig = POLICY, baseUrl: string = this.baseUrl): QuiverClient {
+    return new QuiverClient({ baseUrl, apiToken: 'retry-token', timeoutMs: 100, retry });
+  }
+
+  private check(name: string, error?: string) {
+    console.log(`${error ? '❌' : '✅'} ${name}${error ? ` - ${error}` : ''}`);
+    this.results.push({ name, success: !error, error });
+  }
+
+  public async run(): Promise<boolean> {
+    await this.startUpstream();
+    const client = this.client();
+
+    const flaky = await client.makeRequest('/beta/live/flaky');
+    this.check('transient_errors_retried', !flaky.error && flaky.attempts === 3 ? undefined : JSON.stringify(flaky));
+
+    const started = Date.now();
+    const throttled = await client.makeRequest('/beta/live/throttled');
+    const waited = Date.now() - started;
+    this.check('retry_after_honoured', !throttled.error && throttled.attempts === 2 && waited >= 950 ? undefined : `${JSON.stringify(throttled)} after ${waited}ms`);
+
+    const tooLong = await client.makeRequest('/beta/live/throttled-long');
+    this.check('long_retry_after_gives_up', tooLong.status === 503 && tooLong.attempts === 1 ? undefined : JSON.stringify(tooLong));
+
+    const missing = await client.makeRequest('/beta/live/missing');
+    this.check('client_errors_not_retried', missing.status === 404 && missing.failure === 'http' && this.hits.get('/beta/live/missing') === 1 ? undefined : JSON.stringify(missing));
+
+    const slow = await client.makeRequest('/beta/live/slow');
+    this.check('timeouts_distinguished', slow.failure === 'timeout' && slow.status === 504 && slow.attempts === 3 ? undefined : JSON.stringify(slow));
+
+    const unreachable = await this.client(POLICY, 'http://127.0.0.1:1').makeRequest('/beta/live/anything');
+    this.check('network_errors_distinguished', unreachable.failure === 'network' && unreachable.status === 502 && unreachable.attempts === 3 ? undefined : JSON.stringify(unreachable));
+
+    const post = await client.makeRequest('/beta/live/flaky-post', 'POST', {}, {});
+    this.check('non_get_not_retried', post.attempts === 1 && this.hits.get('/beta/live/flaky-post') === 1 ? undefined : JSON.stringify(post));
+
+    const bulk = await this.client({ ...POLICY, families: { bulk: { maxAttempts: 1 } } }).makeRequest('/beta/bulk/flaky');
+    this.check('family_override', bulk.attempts === 1 && this.hits.get('/beta/bulk/flaky') === 1 ? undefined : JSON.stringify(bulk));
+
+    const retryAt = new Date(Date.now() + 5000).toUTCString();
+    const parsed = parseRetryAfter(retryAt);
+    this.check('retry_after_http_date', parsed !== undefined && parsed > 3000 && parsed <= 5000 ? undefined : `parsed ${parsed}`);
+
+    this.check('attempts_in_tool_meta', await this.checkToolMeta());
+
+    const passed = this.results.filter(r => r.success).length;
+    console.log(`\n📊 ${passed}/${this.results.length} retry checks passed`);
+    return passed === this.results.length;
+  }
+
+  private async checkToolMeta(): Promise<string | undefined> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createQuiverServer(this.client()).connect(serverTransport);
+    const mcp = new Client({ name: 'upstream-retry-suite', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+
+    const result = await mcp.callTool({ name: 'get_live_off_exchange', arguments: { cache: 'bypass' } });
+    await mcp.close();
+    return !result.isError && result._meta?.['quiver/attempts'] === 2 ? undefined : JSON.stringify(result);
+  }
+
+  public async cleanup(): Promise<void> {
+    await new Promise(resolve => this.upstream ? this.upstream.close(resolve) : resolve(undefined));
+  }
+}
+
+async function main() {
+  const suite = new UpstreamRetrySuite();
+
+  let success = false;
+  try {
+    success = await suite.run();
+  } catch (error) {
+    console.error('❌ Retry suite failed:', error);
+  } finally {
+    await suite.cleanup();
+  }
+  process.exit(success ? 0 : 1);
+}
+
+// Check if this file is being run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}